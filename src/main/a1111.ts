@@ -0,0 +1,211 @@
+import type { ApiPrompt } from './prompt'
+
+export type A1111Parameters = {
+  prompt: string
+  negativePrompt: string
+  settings: Record<string, string>
+  loras: Array<{ name: string; weight: number }>
+}
+
+const SAMPLER_NAMES: Record<string, string> = {
+  'euler a': 'euler_ancestral',
+  euler: 'euler',
+  lms: 'lms',
+  heun: 'heun',
+  dpm2: 'dpm_2',
+  'dpm2 a': 'dpm_2_ancestral',
+  'dpm++ 2s a': 'dpmpp_2s_ancestral',
+  'dpm++ 2m': 'dpmpp_2m',
+  'dpm++ sde': 'dpmpp_sde',
+  'dpm++ 2m sde': 'dpmpp_2m_sde',
+  'dpm++ 3m sde': 'dpmpp_3m_sde',
+  'dpm fast': 'dpm_fast',
+  'dpm adaptive': 'dpm_adaptive',
+  ddim: 'ddim',
+  plms: 'plms',
+  unipc: 'uni_pc',
+  lcm: 'lcm'
+}
+
+const SCHEDULER_SUFFIXES: Record<string, string> = {
+  karras: 'karras',
+  exponential: 'exponential',
+  'sgm uniform': 'sgm_uniform',
+  simple: 'simple',
+  'ddim uniform': 'ddim_uniform',
+  beta: 'beta',
+  normal: 'normal'
+}
+
+const SETTINGS_LINE = /^\s*Steps:\s*\d+/
+const SETTING_ENTRY = /\s*([\w \-/+.()]+?):\s*("(?:\\.|[^"\\])*"|[^,]*)(?:,|$)/g
+const LORA_TAG = /<lora:([^:>]+)(?::([-\d.]+))?(?::[^>]*)?>/gi
+
+/** Automatic1111/Forge write their `parameters` text with a `Steps: …` settings line last. */
+export function isA1111Parameters(text: string | undefined): text is string {
+  if (!text) return false
+  return text.split(/\r?\n/).some((line) => SETTINGS_LINE.test(line))
+}
+
+function stripLoraTags(prompt: string) {
+  return prompt
+    .replace(LORA_TAG, '')
+    .replace(/,(\s*,)+/g, ',')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+}
+
+export function parseA1111Parameters(text: string): A1111Parameters {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  let settingsIndex = -1
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (SETTINGS_LINE.test(lines[i]!)) {
+      settingsIndex = i
+      break
+    }
+  }
+  const body = settingsIndex >= 0 ? lines.slice(0, settingsIndex) : lines
+  const settingsLine = settingsIndex >= 0 ? lines.slice(settingsIndex).join(', ') : ''
+
+  const negativeIndex = body.findIndex((line) => line.startsWith('Negative prompt:'))
+  const promptLines = negativeIndex >= 0 ? body.slice(0, negativeIndex) : body
+  const negativeLines = negativeIndex >= 0 ? body.slice(negativeIndex) : []
+  if (negativeLines.length) negativeLines[0] = negativeLines[0]!.slice('Negative prompt:'.length).trimStart()
+
+  const settings: Record<string, string> = {}
+  for (const match of settingsLine.matchAll(SETTING_ENTRY)) {
+    const key = match[1]!.trim()
+    let value = match[2]!.trim()
+    if (!key) continue
+    if (value.startsWith('"') && value.endsWith('"')) {
+      try {
+        value = JSON.parse(value)
+      } catch {
+        value = value.slice(1, -1)
+      }
+    }
+    settings[key] = value
+  }
+
+  const rawPrompt = promptLines.join('\n').trim()
+  const loras: A1111Parameters['loras'] = []
+  for (const match of rawPrompt.matchAll(LORA_TAG)) {
+    const weight = match[2] != null ? Number(match[2]) : 1
+    loras.push({ name: match[1]!.trim(), weight: Number.isFinite(weight) ? weight : 1 })
+  }
+
+  return {
+    prompt: stripLoraTags(rawPrompt),
+    negativePrompt: negativeLines.join('\n').trim(),
+    settings,
+    loras
+  }
+}
+
+function toNumber(value: string | undefined, fallback: number) {
+  const number = Number(value)
+  return value != null && value !== '' && Number.isFinite(number) ? number : fallback
+}
+
+function mapSampler(sampler: string | undefined, scheduleType: string | undefined) {
+  let name = (sampler ?? 'Euler a').trim().toLowerCase()
+  let scheduler = scheduleType ? SCHEDULER_SUFFIXES[scheduleType.trim().toLowerCase()] : undefined
+  for (const [suffix, value] of Object.entries(SCHEDULER_SUFFIXES)) {
+    if (name.endsWith(` ${suffix}`)) {
+      name = name.slice(0, -suffix.length - 1)
+      scheduler ??= value
+      break
+    }
+  }
+  return { sampler_name: SAMPLER_NAMES[name] ?? name.replace(/\+\+/g, 'pp').replace(/\s+/g, '_'), scheduler: scheduler ?? 'normal' }
+}
+
+/** Builds the closest equivalent ComfyUI API prompt (txt2img, optional hires pass). */
+export function a1111ToApiPrompt(params: A1111Parameters): ApiPrompt {
+  const { settings } = params
+  const prompt: ApiPrompt = {}
+  let nextId = 1
+  const add = (class_type: string, inputs: Record<string, unknown>, title?: string) => {
+    const id = String(nextId++)
+    prompt[id] = { class_type, inputs, ...(title ? { _meta: { title } } : {}) }
+    return id
+  }
+
+  const checkpoint = add('CheckpointLoaderSimple', { ckpt_name: settings['Model'] ?? settings['Model hash'] ?? 'unknown' })
+  let model: [string, number] = [checkpoint, 0]
+  let clip: [string, number] = [checkpoint, 1]
+  let vae: [string, number] = [checkpoint, 2]
+
+  for (const lora of params.loras) {
+    const loader = add('LoraLoader', {
+      lora_name: lora.name,
+      strength_model: lora.weight,
+      strength_clip: lora.weight,
+      model,
+      clip
+    })
+    model = [loader, 0]
+    clip = [loader, 1]
+  }
+
+  const clipSkip = toNumber(settings['Clip skip'], 1)
+  if (clipSkip > 1) clip = [add('CLIPSetLastLayer', { stop_at_clip_layer: -clipSkip, clip }), 0]
+
+  if (settings['VAE']) vae = [add('VAELoader', { vae_name: settings['VAE'] }), 0]
+
+  const positive = add('CLIPTextEncode', { text: params.prompt, clip }, 'Positive Prompt')
+  const negative = add('CLIPTextEncode', { text: params.negativePrompt, clip }, 'Negative Prompt')
+
+  const [width, height] = (settings['Size'] ?? '512x512').split('x').map((part) => toNumber(part, 512))
+  const latent = add('EmptyLatentImage', { width, height, batch_size: 1 })
+
+  const seed = toNumber(settings['Seed'], 0)
+  const steps = toNumber(settings['Steps'], 20)
+  const cfg = toNumber(settings['CFG scale'], 7)
+  const { sampler_name, scheduler } = mapSampler(settings['Sampler'], settings['Schedule type'])
+  const hiresScale = toNumber(settings['Hires upscale'], 0)
+  const denoise = toNumber(settings['Denoising strength'], 1)
+
+  let samples: [string, number] = [
+    add('KSampler', {
+      seed,
+      steps,
+      cfg,
+      sampler_name,
+      scheduler,
+      denoise: hiresScale > 0 ? 1 : denoise,
+      model,
+      positive: [positive, 0],
+      negative: [negative, 0],
+      latent_image: [latent, 0]
+    }),
+    0
+  ]
+
+  if (hiresScale > 0) {
+    const upscaled = add('LatentUpscaleBy', { upscale_method: 'nearest-exact', scale_by: hiresScale, samples }, 'Hires upscale')
+    samples = [
+      add(
+        'KSampler',
+        {
+          seed,
+          steps: toNumber(settings['Hires steps'], steps) || steps,
+          cfg,
+          sampler_name,
+          scheduler,
+          denoise,
+          model,
+          positive: [positive, 0],
+          negative: [negative, 0],
+          latent_image: [upscaled, 0]
+        },
+        'Hires fix'
+      ),
+      0
+    ]
+  }
+
+  const decoded = add('VAEDecode', { samples, vae })
+  add('SaveImage', { filename_prefix: 'ComfyUI', images: [decoded, 0] })
+  return prompt
+}
@@ -0,0 +1,132 @@
+import { readdir, stat } from 'node:fs/promises'
+import { dirname, extname, join, posix, resolve, sep } from 'node:path'
+
+export type AssetCheckRequest = { kind: string; name: string; folders: string[] }
+
+export type AssetCheckResult = {
+  kind: string
+  name: string
+  present: boolean
+  // Absolute path of the file that was found.
+  path?: string
+  // Names (as a workflow would reference them) of similar files in the same folders.
+  suggestions: string[]
+}
+
+const MAX_LISTED_FILES = 50_000
+const MAX_LIST_DEPTH = 8
+const MAX_SUGGESTIONS = 3
+const MIN_SIMILARITY = 0.6
+// Tried when a reference has no extension, as ComfyUI does for `embedding:name`.
+const IMPLIED_EXTENSIONS = ['.safetensors', '.pt', '.bin', '.ckpt']
+
+// Paths relative to `root`, '/'-separated like the names ComfyUI stores in workflows.
+async function listFiles(root: string) {
+  const files: string[] = []
+  const walk = async (dir: string, prefix: string, depth: number) => {
+    if (depth > MAX_LIST_DEPTH || files.length >= MAX_LISTED_FILES) return
+    let entries
+    try {
+      entries = await readdir(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const entry of entries) {
+      if (files.length >= MAX_LISTED_FILES) return
+      const name = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (entry.isDirectory()) await walk(join(dir, entry.name), name, depth + 1)
+      else if (entry.isFile() || entry.isSymbolicLink()) files.push(name)
+    }
+  }
+  await walk(root, '', 0)
+  return files
+}
+
+async function isFile(path: string) {
+  try {
+    return (await stat(path)).isFile()
+  } catch {
+    return false
+  }
+}
+
+function isInside(path: string, folder: string) {
+  return path === folder || path.startsWith(folder.endsWith(sep) ? folder : folder + sep)
+}
+
+function comparableName(name: string) {
+  const base = posix.basename(name)
+  return base
+    .slice(0, base.length - extname(base).length)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '')
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+// 1 for the same file name in another subfolder (or differing only in case/punctuation).
+function similarity(wanted: string, candidate: string) {
+  const a = comparableName(wanted)
+  const b = comparableName(candidate)
+  if (!a || !b) return 0
+  if (a === b) return 1
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length)
+}
+
+/**
+ * Checks each referenced file under `modelsDir/<folder>/<name>` and, for missing ones, ranks
+ * the files in those folders by name similarity. Folder listings are read once per call.
+ * Folders must be inside `modelsDir` (or be ComfyUI's input folder) and names inside their folder.
+ */
+export async function verifyAssets(modelsDir: string, requests: AssetCheckRequest[]): Promise<AssetCheckResult[]> {
+  const root = resolve(modelsDir)
+  const inputDir = resolve(dirname(root), 'input')
+  const listings = new Map<string, Promise<string[]>>()
+  const listFolder = (folder: string) => {
+    if (!listings.has(folder)) listings.set(folder, listFiles(folder))
+    return listings.get(folder)!
+  }
+
+  const results: AssetCheckResult[] = []
+  for (const { kind, name, folders: requestedFolders } of requests) {
+    const folders = requestedFolders.map((folder) => resolve(modelsDir, folder)).filter((folder) => folder === inputDir || isInside(folder, root))
+    const relativeName = name.replace(/\\/g, '/')
+    const candidates = extname(relativeName) ? [relativeName] : IMPLIED_EXTENSIONS.map((extension) => relativeName + extension)
+    const paths = folders.flatMap((folder) =>
+      candidates.map((candidate) => resolve(folder, candidate)).filter((path) => path !== folder && isInside(path, folder))
+    )
+    let found: string | null = null
+    for (const path of paths) {
+      if (await isFile(path)) {
+        found = path
+        break
+      }
+    }
+    if (found) {
+      results.push({ kind, name, present: true, path: found, suggestions: [] })
+      continue
+    }
+
+    const scored: Array<{ name: string; score: number }> = []
+    for (const folder of folders) {
+      for (const file of await listFolder(folder)) {
+        const score = similarity(relativeName, file)
+        if (score >= MIN_SIMILARITY) scored.push({ name: file, score })
+      }
+    }
+    scored.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    const suggestions = Array.from(new Set(scored.map((entry) => entry.name))).slice(0, MAX_SUGGESTIONS)
+    results.push({ kind, name, present: false, suggestions })
+  }
+  return results
+}
@@ -0,0 +1,51 @@
+export type Box = {
+  type: string
+  start: number
+  dataStart: number
+  end: number
+}
+
+/** Iterates ISO base media file format boxes (MP4, MOV, HEIF/AVIF) in `buffer[start, end)`. */
+export function readBoxes(buffer: Buffer, start = 0, end = buffer.length): Box[] {
+  const boxes: Box[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset)
+    const type = buffer.subarray(offset + 4, offset + 8).toString('latin1')
+    let headerSize = 8
+    if (size === 1) {
+      if (offset + 16 > end) break
+      size = Number(buffer.readBigUInt64BE(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) break
+    boxes.push({ type, start: offset, dataStart: offset + headerSize, end: offset + size })
+    offset += size
+  }
+
+  return boxes
+}
+
+export function findBox(buffer: Buffer, boxes: Box[], path: string[]): Box | null {
+  let current: Box | null = null
+  let level = boxes
+  for (let i = 0; i < path.length; i++) {
+    current = level.find((box) => box.type === path[i]) ?? null
+    if (!current) return null
+    if (i < path.length - 1) {
+      // `meta` is a full box: version + flags precede its children.
+      const childStart = current.type === 'meta' ? current.dataStart + 4 : current.dataStart
+      level = readBoxes(buffer, childStart, current.end)
+    }
+  }
+  return current
+}
+
+export function readUIntBE(buffer: Buffer, offset: number, size: number) {
+  if (size === 0) return 0
+  if (size === 8) return Number(buffer.readBigUInt64BE(offset))
+  return buffer.readUIntBE(offset, size)
+}
@@ -0,0 +1,253 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename, sep } from 'node:path'
+import { snippetAround } from '../shared/snippet'
+import { findWorkflowFiles, MODEL_FILE_PATTERN } from './library'
+
+export type IndexedNode = {
+  id: number
+  type: string
+  title: string
+  // Widget values as text, nested objects flattened.
+  values: string[]
+  // Id of the subgraph definition the node lives in; absent on the top level.
+  subgraph?: string
+}
+
+export type IndexedFile = { mtimeMs: number; size: number; nodes: IndexedNode[]; models: string[]; error?: string }
+
+export type CatalogStatus = { folders: string[]; files: number; indexing: boolean; error?: string }
+
+export type CatalogHit = { nodeId: number; type: string; title: string; subgraph?: string; field: string; snippet: string }
+
+export type CatalogResult = { path: string; name: string; models: string[]; hits: CatalogHit[] }
+
+export type CatalogOptions = {
+  // JSON file the index is kept in between launches.
+  storePath: string
+  readWorkflow: (path: string) => Promise<{ ok: true; workflow: unknown } | { ok: false; error: string }>
+  onChange: (status: CatalogStatus) => void
+}
+
+type CatalogData = { version: number; files: Record<string, IndexedFile> }
+
+type QueryTerm = { field: 'any' | 'type' | 'title' | 'value' | 'model'; text: string }
+
+const CATALOG_VERSION = 1
+const MAX_VALUE_CHARS = 2000
+const MAX_VALUE_DEPTH = 3
+const MAX_RESULTS = 200
+const MAX_HITS_PER_FILE = 20
+const WATCH_DEBOUNCE_MS = 1000
+const QUERY_TERM_PATTERN = /(?:(type|title|value|model):)?(?:"([^"]*)"|(\S+))/gi
+
+function collectValues(value: unknown, depth: number, out: string[]) {
+  if (typeof value === 'string') {
+    if (value.trim()) out.push(value.slice(0, MAX_VALUE_CHARS))
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    out.push(String(value))
+  } else if (value && typeof value === 'object' && depth < MAX_VALUE_DEPTH) {
+    for (const item of Array.isArray(value) ? value : Object.values(value)) collectValues(item, depth + 1, out)
+  }
+}
+
+function indexNodes(nodes: unknown, subgraph: string | undefined, out: IndexedNode[]) {
+  for (const node of Array.isArray(nodes) ? (nodes as any[]) : []) {
+    const id = Number(node?.id)
+    const type = typeof node?.type === 'string' ? node.type : ''
+    if (!Number.isFinite(id) || !type) continue
+    const values: string[] = []
+    collectValues(node.widgets_values, 0, values)
+    const title = typeof node.title === 'string' ? node.title : ''
+    out.push({ id, type, title, values, ...(subgraph ? { subgraph } : {}) })
+  }
+}
+
+/** The searchable parts of a workflow: every node (subgraph contents included) and the model files it names. */
+export function indexWorkflow(workflow: any): Pick<IndexedFile, 'nodes' | 'models'> {
+  const nodes: IndexedNode[] = []
+  indexNodes(workflow?.nodes, undefined, nodes)
+  for (const definition of Array.isArray(workflow?.definitions?.subgraphs) ? workflow.definitions.subgraphs : []) {
+    if (typeof definition?.id === 'string') indexNodes(definition.nodes, definition.id, nodes)
+  }
+  const models = new Set<string>()
+  for (const node of nodes) {
+    for (const value of node.values) if (MODEL_FILE_PATTERN.test(value)) models.add(value)
+  }
+  return { nodes, models: Array.from(models).sort() }
+}
+
+/**
+ * Splits a query into terms that must all match somewhere in a file. Terms can be quoted and
+ * limited to a field: `type:IPAdapter model:"my lora.safetensors"`.
+ */
+export function parseCatalogQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = []
+  for (const match of query.matchAll(QUERY_TERM_PATTERN)) {
+    const text = (match[2] ?? match[3] ?? '').trim().toLowerCase()
+    if (text) terms.push({ field: (match[1]?.toLowerCase() ?? 'any') as QueryTerm['field'], text })
+  }
+  return terms
+}
+
+function matchTerm(node: IndexedNode, term: QueryTerm): { field: string; snippet: string } | null {
+  if (term.field === 'any' || term.field === 'type') {
+    if (node.type.toLowerCase().includes(term.text)) return { field: 'type', snippet: node.type }
+  }
+  if (term.field === 'any' || term.field === 'title') {
+    if (node.title.toLowerCase().includes(term.text)) return { field: 'title', snippet: node.title }
+  }
+  if (term.field === 'type' || term.field === 'title') return null
+  for (const value of node.values) {
+    if (term.field === 'model' && !MODEL_FILE_PATTERN.test(value)) continue
+    const index = value.toLowerCase().indexOf(term.text)
+    if (index >= 0) return { field: term.field === 'model' ? 'model' : 'value', snippet: snippetAround(value, index, term.text.length) }
+  }
+  return null
+}
+
+function queryFiles(files: Record<string, IndexedFile>, query: string): CatalogResult[] {
+  const terms = parseCatalogQuery(query)
+  if (!terms.length) return []
+  const results: CatalogResult[] = []
+  for (const [path, file] of Object.entries(files)) {
+    const hits: CatalogHit[] = []
+    const matched = new Set<QueryTerm>()
+    for (const node of file.nodes) {
+      let hit: CatalogHit | null = null
+      for (const term of terms) {
+        const match = matchTerm(node, term)
+        if (!match) continue
+        matched.add(term)
+        hit ??= { nodeId: node.id, type: node.type, title: node.title, ...(node.subgraph ? { subgraph: node.subgraph } : {}), ...match }
+      }
+      if (hit && hits.length < MAX_HITS_PER_FILE) hits.push(hit)
+    }
+    if (matched.size === terms.length) results.push({ path, name: basename(path), models: file.models, hits })
+  }
+  return results.sort((a, b) => b.hits.length - a.hits.length || a.path.localeCompare(b.path)).slice(0, MAX_RESULTS)
+}
+
+function isInside(path: string, folder: string) {
+  return path === folder || path.startsWith(folder.endsWith(sep) ? folder : folder + sep)
+}
+
+/**
+ * A persistent index over the workflows in a set of folders. Files are re-read only when their
+ * size or modification time changes; folders are watched so edits are picked up while running.
+ */
+export function createCatalog({ storePath, readWorkflow, onChange }: CatalogOptions) {
+  let files: Record<string, IndexedFile> = {}
+  let folders: string[] = []
+  let watchers: FSWatcher[] = []
+  let loaded: Promise<void> | null = null
+  let running: Promise<void> | null = null
+  let pending = false
+  let debounce: ReturnType<typeof setTimeout> | null = null
+  // Why the last update failed; cleared by the next one that succeeds.
+  let error: string | null = null
+
+  const status = (): CatalogStatus => ({
+    folders,
+    files: Object.keys(files).length,
+    indexing: running !== null,
+    ...(error ? { error } : {})
+  })
+
+  const load = () =>
+    (loaded ??= readFile(storePath, 'utf8')
+      .then((text) => {
+        const data: CatalogData = JSON.parse(text)
+        if (data?.version === CATALOG_VERSION && data.files && typeof data.files === 'object') files = data.files
+      })
+      .catch(() => {
+        // Missing or unreadable: start from an empty index.
+      }))
+
+  const update = async () => {
+    await load()
+    const seen = new Set<string>()
+    let changed = false
+    for (const folder of folders) {
+      for (const entry of await findWorkflowFiles(folder)) {
+        seen.add(entry.path)
+        const existing = files[entry.path]
+        if (existing && existing.mtimeMs === entry.mtimeMs && existing.size === entry.size) continue
+        const payload = await readWorkflow(entry.path)
+        const indexed = payload.ok
+          ? indexWorkflow(payload.workflow)
+          : { nodes: [], models: [], error: payload.error }
+        files[entry.path] = { mtimeMs: entry.mtimeMs, size: entry.size, ...indexed }
+        changed = true
+      }
+    }
+    for (const path of Object.keys(files)) {
+      if (seen.has(path)) continue
+      delete files[path]
+      changed = true
+    }
+    if (changed) await writeFile(storePath, JSON.stringify({ version: CATALOG_VERSION, files } satisfies CatalogData))
+  }
+
+  // One update at a time; changes arriving meanwhile trigger a single follow-up pass.
+  const refresh = (): Promise<void> => {
+    if (running) {
+      pending = true
+      return running
+    }
+    running = update()
+      .then(() => {
+        error = null
+      })
+      .catch((reason) => {
+        error = reason instanceof Error ? reason.message : String(reason)
+      })
+      .finally(() => {
+        running = null
+        onChange(status())
+        if (pending) {
+          pending = false
+          refresh()
+        }
+      })
+    onChange(status())
+    return running
+  }
+
+  const scheduleRefresh = () => {
+    if (debounce) clearTimeout(debounce)
+    debounce = setTimeout(() => {
+      debounce = null
+      refresh()
+    }, WATCH_DEBOUNCE_MS)
+  }
+
+  const setFolders = (next: string[]) => {
+    folders = Array.from(new Set(next)).filter((folder, _, all) => !all.some((other) => other !== folder && isInside(folder, other)))
+    for (const watcher of watchers) watcher.close()
+    watchers = []
+    for (const folder of folders) {
+      try {
+        const watcher = watch(folder, { recursive: true }, () => scheduleRefresh())
+        watcher.on('error', () => {})
+        watchers.push(watcher)
+      } catch {
+        // Not watchable here (e.g. a removed folder); it is still re-scanned on refresh.
+      }
+    }
+    return refresh()
+  }
+
+  const query = async (text: string) => {
+    await load()
+    return queryFiles(files, text)
+  }
+
+  const dispose = () => {
+    if (debounce) clearTimeout(debounce)
+    for (const watcher of watchers) watcher.close()
+    watchers = []
+  }
+
+  return { status, setFolders, refresh, query, dispose }
+}
@@ -0,0 +1,227 @@
+import { writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { indexWorkflow } from './catalog'
+
+export type CliCommand = 'extract' | 'info' | 'export-png'
+
+export type CliOptions = {
+  command: CliCommand
+  input: string
+  // `--extract=prompt` prints the API-format prompt instead of the workflow.
+  extract: 'workflow' | 'prompt'
+  json: boolean
+  output: string
+  scale: number
+  transparent: boolean
+}
+
+export type CliRequest = { ok: true; options: CliOptions } | { ok: false; error: string }
+
+export type CliPayload =
+  | { ok: true; workflow: unknown; prompt?: string }
+  | { ok: false; error: string; reason?: 'unsupported' | 'no-workflow' }
+
+export type CliRenderResult = { ok: true; data: string; scale: number } | { ok: false; error: string }
+
+export type CliDependencies = {
+  load: (path: string) => Promise<CliPayload>
+  // Only needed for `--export-png`, which draws the graph in a hidden window.
+  render?: (path: string, scale: number, transparent: boolean) => Promise<CliRenderResult>
+}
+
+export const CLI_EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  // Missing file, unreadable or malformed content.
+  unreadable: 3,
+  unsupported: 4,
+  // A supported file that carries no workflow (or no prompt for `--extract=prompt`).
+  noWorkflow: 5
+} as const
+
+export const CLI_USAGE = `Usage:
+  viewer --extract[=workflow|prompt] <file>   print the embedded workflow (or API prompt) as JSON
+  viewer --info [--json] <file>               print node types, models and seeds
+  viewer --export-png <out.png> [--scale <n>] [--transparent] <file>
+                                              render the graph to a PNG image
+
+Exit codes: 0 ok, 1 failed, 2 usage, 3 unreadable, 4 unsupported type, 5 no workflow`
+
+const COMMAND_FLAGS: Record<string, CliCommand> = { '--extract': 'extract', '--info': 'info', '--export-png': 'export-png' }
+const VALUE_FLAGS = new Set(['--export-png', '--scale'])
+const KNOWN_FLAGS = new Set([...Object.keys(COMMAND_FLAGS), '--json', '--scale', '--transparent'])
+const MAX_SCALE = 8
+
+// Widget slot of the seed on core samplers, for workflows saved without an API prompt.
+const SEED_WIDGET_INDEX: Record<string, number> = { KSampler: 0, KSamplerAdvanced: 1, SamplerCustom: 1, RandomNoise: 0 }
+const SEED_INPUT_NAMES = ['seed', 'noise_seed']
+
+/**
+ * Reads the CLI flags from the arguments after the executable. Returns null when none of the
+ * command flags is present, so a plain launch (or one with files to open) starts the viewer.
+ */
+export function parseCliArgs(args: string[]): CliRequest | null {
+  const flags = new Map<string, string>()
+  const inputs: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (!arg.startsWith('--')) {
+      inputs.push(arg)
+      continue
+    }
+    const [name, inline] = arg.split(/=(.*)/s, 2) as [string, string | undefined]
+    if (VALUE_FLAGS.has(name) && inline === undefined) {
+      const value = args[++i]
+      if (value === undefined) return { ok: false, error: `${name} needs a value` }
+      flags.set(name, value)
+    } else {
+      flags.set(name, inline ?? '')
+    }
+  }
+
+  const commands = Object.keys(COMMAND_FLAGS).filter((flag) => flags.has(flag))
+  if (!commands.length) return null
+  if (commands.length > 1) return { ok: false, error: `Use only one of ${commands.join(', ')}` }
+  const unknown = Array.from(flags.keys()).find((flag) => !KNOWN_FLAGS.has(flag))
+  if (unknown) return { ok: false, error: `Unknown option ${unknown}` }
+  if (inputs.length !== 1) return { ok: false, error: inputs.length ? 'Pass exactly one input file' : 'No input file given' }
+
+  const extract = flags.get('--extract') || 'workflow'
+  if (extract !== 'workflow' && extract !== 'prompt') return { ok: false, error: `--extract must be workflow or prompt, not ${extract}` }
+  const output = flags.get('--export-png') ?? ''
+  if (flags.has('--export-png') && !output) return { ok: false, error: '--export-png needs an output path' }
+  const scale = flags.has('--scale') ? Number(flags.get('--scale')) : 1
+  if (!(scale > 0 && scale <= MAX_SCALE)) return { ok: false, error: `--scale must be a number between 0 and ${MAX_SCALE}` }
+
+  return {
+    ok: true,
+    options: {
+      command: COMMAND_FLAGS[commands[0]!]!,
+      input: resolve(inputs[0]!),
+      extract,
+      json: flags.has('--json'),
+      output: output && resolve(output),
+      scale,
+      transparent: flags.has('--transparent')
+    }
+  }
+}
+
+type WorkflowSummary = {
+  nodeCount: number
+  nodeTypes: Array<{ type: string; count: number }>
+  models: string[]
+  seeds: Array<{ nodeId: string; type: string; seed: number }>
+}
+
+function seedsFromPrompt(prompt: string): WorkflowSummary['seeds'] | null {
+  let parsed: any
+  try {
+    parsed = JSON.parse(prompt)
+  } catch {
+    return null
+  }
+  if (!parsed || typeof parsed !== 'object') return null
+  const seeds: WorkflowSummary['seeds'] = []
+  for (const [nodeId, entry] of Object.entries<any>(parsed)) {
+    for (const name of SEED_INPUT_NAMES) {
+      const value = entry?.inputs?.[name]
+      if (typeof value === 'number') seeds.push({ nodeId, type: String(entry.class_type ?? ''), seed: value })
+    }
+  }
+  return seeds
+}
+
+function seedsFromWorkflow(workflow: any): WorkflowSummary['seeds'] {
+  const seeds: WorkflowSummary['seeds'] = []
+  for (const node of Array.isArray(workflow?.nodes) ? (workflow.nodes as any[]) : []) {
+    const values = node?.widgets_values
+    const type = String(node?.type ?? '')
+    const candidates = Array.isArray(values)
+      ? [values[SEED_WIDGET_INDEX[type] ?? -1]]
+      : SEED_INPUT_NAMES.map((name) => values?.[name])
+    for (const value of candidates) {
+      if (typeof value === 'number') seeds.push({ nodeId: String(node.id), type, seed: value })
+    }
+  }
+  return seeds
+}
+
+function summarize(workflow: any, prompt: string | undefined): WorkflowSummary {
+  const { nodes, models } = indexWorkflow(workflow)
+  const subgraphIds = new Set(nodes.map((node) => node.subgraph).filter(Boolean))
+  const counts = new Map<string, number>()
+  for (const node of nodes) {
+    if (!subgraphIds.has(node.type)) counts.set(node.type, (counts.get(node.type) ?? 0) + 1)
+  }
+  return {
+    nodeCount: Array.isArray(workflow?.nodes) ? workflow.nodes.length : 0,
+    nodeTypes: Array.from(counts, ([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count || a.type.localeCompare(b.type)),
+    models,
+    seeds: (prompt && seedsFromPrompt(prompt)) || seedsFromWorkflow(workflow)
+  }
+}
+
+function formatSummary(path: string, summary: WorkflowSummary) {
+  const lines = [`File: ${path}`, `Nodes: ${summary.nodeCount} (${summary.nodeTypes.length} types)`, '', 'Node types:']
+  for (const { type, count } of summary.nodeTypes) lines.push(`  ${String(count).padStart(4)}  ${type}`)
+  lines.push('', 'Models:', ...(summary.models.length ? summary.models.map((model) => `  ${model}`) : ['  (none)']))
+  lines.push('', 'Seeds:', ...(summary.seeds.length ? summary.seeds.map((s) => `  #${s.nodeId} ${s.type}: ${s.seed}`) : ['  (none)']))
+  return lines.join('\n')
+}
+
+function fail(code: number, message: string) {
+  process.stderr.write(`${message}\n`)
+  return code
+}
+
+/** Runs one CLI command, printing results to stdout and problems to stderr; resolves to the exit code. */
+export async function runCli(options: CliOptions, { load, render }: CliDependencies): Promise<number> {
+  const payload = await load(options.input)
+  if (!payload.ok) {
+    const code =
+      payload.reason === 'unsupported'
+        ? CLI_EXIT_CODES.unsupported
+        : payload.reason === 'no-workflow'
+          ? CLI_EXIT_CODES.noWorkflow
+          : CLI_EXIT_CODES.unreadable
+    return fail(code, `${options.input}: ${payload.error}`)
+  }
+  const workflow = payload.workflow as any
+  if (!Array.isArray(workflow?.nodes)) return fail(CLI_EXIT_CODES.noWorkflow, `${options.input}: not a workflow (no nodes)`)
+
+  if (options.command === 'extract') {
+    if (options.extract === 'prompt') {
+      if (!payload.prompt) return fail(CLI_EXIT_CODES.noWorkflow, `${options.input}: no API prompt embedded`)
+      let prompt: unknown = payload.prompt
+      try {
+        prompt = JSON.parse(payload.prompt)
+      } catch {
+        // Print the stored text as-is.
+      }
+      process.stdout.write(`${typeof prompt === 'string' ? prompt : JSON.stringify(prompt, null, 2)}\n`)
+    } else {
+      process.stdout.write(`${JSON.stringify(workflow, null, 2)}\n`)
+    }
+    return CLI_EXIT_CODES.ok
+  }
+
+  if (options.command === 'info') {
+    const summary = summarize(workflow, payload.prompt)
+    process.stdout.write(`${options.json ? JSON.stringify({ path: options.input, ...summary }, null, 2) : formatSummary(options.input, summary)}\n`)
+    return CLI_EXIT_CODES.ok
+  }
+
+  if (!render) return fail(CLI_EXIT_CODES.failed, 'Rendering is not available')
+  const result = await render(options.input, options.scale, options.transparent)
+  if (!result.ok) return fail(CLI_EXIT_CODES.failed, `${options.input}: ${result.error}`)
+  try {
+    await writeFile(options.output, Buffer.from(result.data, 'base64'))
+  } catch (error) {
+    return fail(CLI_EXIT_CODES.failed, `${options.output}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const scaleNote = result.scale < options.scale ? ` (scale reduced to ${result.scale.toFixed(2)}× to fit)` : ''
+  process.stderr.write(`Wrote ${options.output}${scaleNote}\n`)
+  return CLI_EXIT_CODES.ok
+}
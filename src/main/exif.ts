@@ -0,0 +1,111 @@
+import { isApiPrompt } from './prompt'
+
+const TAG_NAMES: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9286: 'UserComment',
+  0x9c9c: 'XPComment'
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const PREFIXED_VALUE_PATTERN = /^([A-Za-z_][\w ]*):\s*([[{][\s\S]*)$/
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1')
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+function decodeUserComment(bytes: Buffer, littleEndian: boolean) {
+  if (bytes.length < 8) return bytes.toString('utf8')
+  const charset = bytes.subarray(0, 8).toString('latin1').replace(/\0+$/, '')
+  const body = bytes.subarray(8)
+  if (charset === 'UNICODE') {
+    // Writers disagree on byte order; prefer the TIFF order unless a BOM says otherwise.
+    if (body[0] === 0xff && body[1] === 0xfe) return body.subarray(2).toString('utf16le')
+    if (body[0] === 0xfe && body[1] === 0xff) return Buffer.from(body.subarray(2)).swap16().toString('utf16le')
+    if (littleEndian || body.length % 2 !== 0) return body.toString('utf16le')
+    return Buffer.from(body).swap16().toString('utf16le')
+  }
+  return body.toString('utf8')
+}
+
+function decodeTagValue(tag: number, type: number, bytes: Buffer, littleEndian: boolean) {
+  if (tag === 0x9286) return decodeUserComment(bytes, littleEndian)
+  if (tag === 0x9c9c) return bytes.toString('utf16le')
+  if (type === 2 || type === 7 || type === 1) return bytes.toString('utf8')
+  return null
+}
+
+/**
+ * ComfyUI's WebP/JPEG savers write `workflow:{…}` / `prompt:{…}` into Make, Model and the
+ * tags counting down from Make (one per extra_pnginfo entry); other tools put bare JSON into
+ * UserComment or ImageDescription.
+ */
+function assignTextValue(text: Record<string, string>, tagName: string, rawValue: string) {
+  const value = rawValue.replace(/\0+$/, '')
+  if (!value.trim()) return
+
+  const prefixed = PREFIXED_VALUE_PATTERN.exec(value)
+  if (prefixed) {
+    text[prefixed[1]!] = prefixed[2]!
+    return
+  }
+
+  const trimmed = value.trim()
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (Array.isArray(parsed?.nodes)) text['workflow'] ??= trimmed
+      else if (isApiPrompt(parsed)) text['prompt'] ??= trimmed
+    } catch {
+      // not JSON, keep under the tag name only
+    }
+  }
+  text[tagName] = value
+}
+
+/** Reads the text-valued tags of a TIFF/EXIF block (with or without the `Exif\0\0` header). */
+export function parseExifText(input: Buffer): Record<string, string> {
+  const tiff = input.subarray(0, 6).equals(EXIF_HEADER) ? input.subarray(6) : input
+  const text: Record<string, string> = {}
+  if (tiff.length < 8) return text
+
+  const order = tiff.subarray(0, 2).toString('latin1')
+  if (order !== 'II' && order !== 'MM') throw new Error('Invalid EXIF byte order')
+  const littleEndian = order === 'II'
+  const u16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at))
+  const u32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at))
+
+  const visited = new Set<number>()
+  const readIfd = (ifdOffset: number) => {
+    if (visited.has(ifdOffset) || ifdOffset + 2 > tiff.length) return
+    visited.add(ifdOffset)
+    const count = u16(ifdOffset)
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12
+      if (entry + 12 > tiff.length) return
+      const tag = u16(entry)
+      const type = u16(entry + 2)
+      const valueCount = u32(entry + 4)
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(u32(entry + 8))
+        continue
+      }
+
+      // Other ASCII tags count only when they hold a `key:{…}` entry.
+      const tagName = TAG_NAMES[tag] ?? (type === 2 ? `Tag0x${tag.toString(16).padStart(4, '0')}` : null)
+      if (!tagName) continue
+      const byteLength = valueCount * (TYPE_SIZES[type] ?? 1)
+      const valueOffset = byteLength <= 4 ? entry + 8 : u32(entry + 8)
+      if (valueOffset + byteLength > tiff.length) continue
+      const value = decodeTagValue(tag, type, tiff.subarray(valueOffset, valueOffset + byteLength), littleEndian)
+      if (value == null) continue
+      if (TAG_NAMES[tag] || PREFIXED_VALUE_PATTERN.test(value.replace(/\0+$/, ''))) assignTextValue(text, tagName, value)
+    }
+  }
+
+  readIfd(u32(4))
+  return text
+}
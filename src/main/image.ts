@@ -0,0 +1,149 @@
+import { findBox, readBoxes, readUIntBE } from './bmff'
+import { parseExifText } from './exif'
+
+export function parseWebpText(buffer: Buffer): Record<string, string> {
+  if (buffer.subarray(0, 4).toString('latin1') !== 'RIFF' || buffer.subarray(8, 12).toString('latin1') !== 'WEBP') {
+    throw new Error('Not a WebP file')
+  }
+
+  const text: Record<string, string> = {}
+  let offset = 12
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.subarray(offset, offset + 4).toString('latin1')
+    const length = buffer.readUInt32LE(offset + 4)
+    const dataStart = offset + 8
+    const dataEnd = dataStart + length
+    if (dataEnd > buffer.length) break
+    if (type === 'EXIF') Object.assign(text, parseExifText(buffer.subarray(dataStart, dataEnd)))
+    offset = dataEnd + (length % 2)
+  }
+  return text
+}
+
+export function parseJpegText(buffer: Buffer): Record<string, string> {
+  if (buffer[0] !== 0xff || buffer[1] !== 0xd8) throw new Error('Not a JPEG file')
+
+  const text: Record<string, string> = {}
+  let offset = 2
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) break
+    const marker = buffer[offset + 1]!
+    if (marker === 0xff) {
+      offset += 1
+      continue
+    }
+    // Standalone markers carry no length.
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2
+      continue
+    }
+    if (marker === 0xda || marker === 0xd9) break
+
+    const length = buffer.readUInt16BE(offset + 2)
+    const dataStart = offset + 4
+    const dataEnd = offset + 2 + length
+    if (length < 2 || dataEnd > buffer.length) break
+    const data = buffer.subarray(dataStart, dataEnd)
+
+    if (marker === 0xe1 && data.subarray(0, 6).toString('latin1') === 'Exif\0\0') {
+      Object.assign(text, parseExifText(data))
+    } else if (marker === 0xfe) {
+      const comment = data.toString('utf8').replace(/\0+$/, '')
+      const prefixed = /^([A-Za-z_][\w ]*):\s*([[{][\s\S]*)$/.exec(comment)
+      if (prefixed) text[prefixed[1]!] = prefixed[2]!
+      else text['Comment'] = comment
+    }
+    offset = dataEnd
+  }
+  return text
+}
+
+type ItemLocation = { constructionMethod: number; extents: Array<{ offset: number; length: number }> }
+
+function readItemTypes(buffer: Buffer, start: number, end: number) {
+  const types = new Map<number, string>()
+  const version = buffer[start]!
+  const entryStart = start + 4 + (version === 0 ? 2 : 4)
+  for (const infe of readBoxes(buffer, entryStart, end)) {
+    if (infe.type !== 'infe') continue
+    const infeVersion = buffer[infe.dataStart]!
+    if (infeVersion < 2) continue
+    let at = infe.dataStart + 4
+    const itemId = infeVersion === 2 ? buffer.readUInt16BE(at) : buffer.readUInt32BE(at)
+    at += (infeVersion === 2 ? 2 : 4) + 2
+    types.set(itemId, buffer.subarray(at, at + 4).toString('latin1'))
+  }
+  return types
+}
+
+function readItemLocations(buffer: Buffer, start: number) {
+  const locations = new Map<number, ItemLocation>()
+  const version = buffer[start]!
+  let at = start + 4
+  const offsetSize = buffer[at]! >> 4
+  const lengthSize = buffer[at]! & 0x0f
+  const baseOffsetSize = buffer[at + 1]! >> 4
+  const indexSize = version === 1 || version === 2 ? buffer[at + 1]! & 0x0f : 0
+  at += 2
+  const itemCount = version < 2 ? buffer.readUInt16BE(at) : buffer.readUInt32BE(at)
+  at += version < 2 ? 2 : 4
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? buffer.readUInt16BE(at) : buffer.readUInt32BE(at)
+    at += version < 2 ? 2 : 4
+    let constructionMethod = 0
+    if (version === 1 || version === 2) {
+      constructionMethod = buffer.readUInt16BE(at) & 0x0f
+      at += 2
+    }
+    at += 2 // data_reference_index
+    const baseOffset = readUIntBE(buffer, at, baseOffsetSize)
+    at += baseOffsetSize
+    const extentCount = buffer.readUInt16BE(at)
+    at += 2
+    const extents: ItemLocation['extents'] = []
+    for (let j = 0; j < extentCount; j++) {
+      at += indexSize
+      const offset = readUIntBE(buffer, at, offsetSize)
+      at += offsetSize
+      const length = readUIntBE(buffer, at, lengthSize)
+      at += lengthSize
+      extents.push({ offset: baseOffset + offset, length })
+    }
+    locations.set(itemId, { constructionMethod, extents })
+  }
+  return locations
+}
+
+/** AVIF/HEIF keep EXIF as an `Exif` item referenced from `meta/iinf` and located by `meta/iloc`. */
+export function parseHeifText(buffer: Buffer): Record<string, string> {
+  const boxes = readBoxes(buffer)
+  if (boxes[0]?.type !== 'ftyp') throw new Error('Not an AVIF/HEIF file')
+
+  const text: Record<string, string> = {}
+  const meta = findBox(buffer, boxes, ['meta'])
+  if (!meta) return text
+  const children = readBoxes(buffer, meta.dataStart + 4, meta.end)
+  const iinf = children.find((box) => box.type === 'iinf')
+  const iloc = children.find((box) => box.type === 'iloc')
+  const idat = children.find((box) => box.type === 'idat')
+  if (!iinf || !iloc) return text
+
+  const types = readItemTypes(buffer, iinf.dataStart, iinf.end)
+  const locations = readItemLocations(buffer, iloc.dataStart)
+
+  for (const [itemId, type] of types) {
+    if (type !== 'Exif') continue
+    const location = locations.get(itemId)
+    if (!location) continue
+    const base = location.constructionMethod === 1 && idat ? idat.dataStart : 0
+    if (location.constructionMethod > 1) continue
+    const parts = location.extents.map((extent) => buffer.subarray(base + extent.offset, base + extent.offset + extent.length))
+    const item = Buffer.concat(parts)
+    if (item.length < 4) continue
+    // Item payload starts with the offset of the TIFF header inside the remaining bytes.
+    const tiffOffset = item.readUInt32BE(0)
+    Object.assign(text, parseExifText(item.subarray(4 + tiffOffset)))
+  }
+  return text
+}
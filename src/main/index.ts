@@ -1,12 +1,35 @@
 import { app, BrowserWindow, clipboard, dialog, ipcMain, Menu, shell } from 'electron'
-import { readFile } from 'node:fs/promises'
-import { extname } from 'node:path'
+import { statSync } from 'node:fs'
+import { open, readFile, writeFile, type FileHandle } from 'node:fs/promises'
+import { basename, dirname, extname, join, resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
-import zlib from 'node:zlib'
+import { a1111ToApiPrompt, isA1111Parameters, parseA1111Parameters } from './a1111'
+import { verifyAssets, type AssetCheckRequest } from './assets'
+import { createCatalog } from './catalog'
+import { CLI_EXIT_CODES, CLI_USAGE, parseCliArgs, runCli, type CliRenderResult } from './cli'
+import { parseHeifText, parseJpegText, parseWebpText } from './image'
+import { buildWorkflowPreview, createThumbnail, findWorkflowFiles, pickModelName, type LibrarySummary } from './library'
+import {
+  parseFlacText,
+  parseMatroskaText,
+  parseMp4Text,
+  parseOggText,
+  readFlacHeader,
+  readMatroskaHeader,
+  readMp4Header,
+  readOggHeader
+} from './media'
+import { readPngMetadata, writePngTextChunks } from './png'
+import { apiPromptToWorkflow, isApiPrompt } from './prompt'
+import { readSafetensorsMetadata } from './safetensors'
+import { addRecentFile, clearRecentFiles, readRecentFiles, readSession, writeSessionSync, type Session } from './session'
+import { readSettings, updateSettings } from './settings'
+import { createFileWatcher } from './watcher'
 
 type WorkflowPayload =
-  | { ok: true; sourcePath: string; workflow: unknown }
-  | { ok: false; sourcePath?: string; error: string }
+  | { ok: true; sourcePath: string; workflow: unknown; prompt?: string; metadata?: Record<string, string>; warnings?: string[] }
+  // `reason` separates files that cannot hold a workflow from ones that happen not to (for CLI exit codes).
+  | { ok: false; sourcePath?: string; error: string; reason?: 'unsupported' | 'no-workflow' }
 
 type WorkflowCommand =
   | 'zoom-in'
@@ -14,14 +37,161 @@ type WorkflowCommand =
   | 'reset-view'
   | 'fit'
   | 'toggle-sidebar'
+  | 'toggle-minimap'
   | 'close-tab'
   | 'next-tab'
   | 'prev-tab'
+  | 'auto-layout'
+  | 'find'
+  | 'compare'
+  | 'toggle-split'
+  | 'export-image'
+  | 'save-png'
+  | 'export-api-prompt'
+  | 'load-node-definitions'
+  | 'load-node-map'
+  | 'dependencies'
+  | 'inventory'
+  | 'open-folder'
+  | 'search-workflows'
+
+type ExportRequest = { defaultName: string; data: string; encoding: 'base64' | 'utf8' }
+
+type ExportResult = { ok: true; savedPath: string } | { ok: false; error: string } | null
+
+type SavePngRequest = { workflow: string; prompt?: string }
+
+type SavePngResult = { ok: true; savedPath: string } | { ok: false; error: string } | null
+
+// JSON files describing the user's ComfyUI install, remembered across launches.
+type ReferenceKind = 'node-definitions' | 'node-map'
+
+type ReferencePayload = { ok: true; sourcePath: string; data: unknown } | { ok: false; sourcePath?: string; error: string }
+
+type MetadataText = { text: Record<string, string>; metadata?: Record<string, string>; warnings?: string[] }
+
+// `load` picks the metadata out of files too large to read whole (video/audio); others are read whole.
+type MetadataTextReader = { label: string; read: (buffer: Buffer) => MetadataText; load?: (handle: FileHandle) => Promise<Buffer> }
+
+const WORKFLOW_FILE_FILTERS: Electron.FileFilter[] = [
+  { name: 'ComfyUI Workflow', extensions: ['json', 'png', 'webp', 'jpg', 'jpeg', 'avif', 'heic', 'heif'] },
+  { name: 'Video / Audio', extensions: ['mp4', 'mov', 'm4v', 'm4a', 'webm', 'mkv', 'flac', 'ogg', 'opus'] },
+  { name: 'Model (safetensors)', extensions: ['safetensors'] },
+  { name: 'All Files', extensions: ['*'] }
+]
+
+const EXPORT_FILE_FILTERS: Record<string, Electron.FileFilter[]> = {
+  png: [{ name: 'PNG Image', extensions: ['png'] }],
+  svg: [{ name: 'SVG Image', extensions: ['svg'] }],
+  json: [{ name: 'JSON', extensions: ['json'] }]
+}
+
+function textOnly(read: (buffer: Buffer) => Record<string, string>) {
+  return (buffer: Buffer): MetadataText => ({ text: read(buffer) })
+}
+
+// PNG reports every text chunk it found (including duplicates) plus any damage it ran into.
+function readPngMetadataText(buffer: Buffer): MetadataText {
+  const png = readPngMetadata(buffer)
+  const metadata: Record<string, string> = {}
+  for (const entry of png.entries) {
+    let key = `${entry.chunk} ${entry.key}`
+    for (let n = 2; key in metadata; n++) key = `${entry.chunk} ${entry.key} #${n}`
+    metadata[key] = entry.value
+  }
+  if (png.frames != null) metadata['APNG frames'] = String(png.frames)
+  return { text: png.text, metadata, warnings: png.warnings }
+}
+
+const METADATA_TEXT_READERS: Record<string, MetadataTextReader> = {
+  '.png': { label: 'PNG', read: readPngMetadataText },
+  '.webp': { label: 'WebP', read: textOnly(parseWebpText) },
+  '.jpg': { label: 'JPEG', read: textOnly(parseJpegText) },
+  '.jpeg': { label: 'JPEG', read: textOnly(parseJpegText) },
+  '.avif': { label: 'AVIF', read: textOnly(parseHeifText) },
+  '.heic': { label: 'HEIF', read: textOnly(parseHeifText) },
+  '.heif': { label: 'HEIF', read: textOnly(parseHeifText) },
+  '.mp4': { label: 'MP4', read: textOnly(parseMp4Text), load: readMp4Header },
+  '.m4v': { label: 'MP4', read: textOnly(parseMp4Text), load: readMp4Header },
+  '.m4a': { label: 'MP4', read: textOnly(parseMp4Text), load: readMp4Header },
+  '.mov': { label: 'MOV', read: textOnly(parseMp4Text), load: readMp4Header },
+  '.webm': { label: 'WebM', read: textOnly(parseMatroskaText), load: readMatroskaHeader },
+  '.mkv': { label: 'Matroska', read: textOnly(parseMatroskaText), load: readMatroskaHeader },
+  '.flac': { label: 'FLAC', read: textOnly(parseFlacText), load: readFlacHeader },
+  '.ogg': { label: 'Ogg', read: textOnly(parseOggText), load: readOggHeader },
+  '.opus': { label: 'Opus', read: textOnly(parseOggText), load: readOggHeader }
+}
+
+const MAX_WHOLE_FILE_BYTES = 256 * 1024 * 1024
+
+async function readSourceFile(sourcePath: string, load?: MetadataTextReader['load']) {
+  const handle = await open(sourcePath, 'r')
+  try {
+    if (load) return await load(handle)
+    const { size } = await handle.stat()
+    if (size > MAX_WHOLE_FILE_BYTES) throw new Error(`File is too large to read (${Math.round(size / 1024 / 1024)} MB)`)
+    return await handle.readFile()
+  } finally {
+    await handle.close()
+  }
+}
 
 function sendWorkflowCommand(window: BrowserWindow, command: WorkflowCommand) {
   window.webContents.send('workflow:command', command)
 }
 
+// Files named on the command line or handed over by the OS before the window could take them.
+const pendingOpenPaths: string[] = []
+let mainWindow: BrowserWindow | null = null
+
+function openPaths(paths: string[]) {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    pendingOpenPaths.push(...paths)
+    return
+  }
+  for (const path of paths) mainWindow.webContents.send('workflow:open-path', path)
+}
+
+// Skips the executable (and the app folder when run through `electron .`) and Chromium switches.
+function pathsFromArgv(argv: string[], workingDirectory: string) {
+  return argv
+    .slice(process.defaultApp ? 2 : 1)
+    .filter((arg) => !arg.startsWith('-'))
+    .map((arg) => resolve(workingDirectory, arg))
+    .filter((path) => {
+      try {
+        return statSync(path).isFile()
+      } catch {
+        return false
+      }
+    })
+}
+
+let recentFiles: string[] = []
+
+function recentFilesMenu(window: BrowserWindow): Electron.MenuItemConstructorOptions[] {
+  if (!recentFiles.length) return [{ label: 'No Recent Files', enabled: false }]
+  return [
+    ...recentFiles.map((path) => ({
+      // `&` marks a mnemonic in menu labels on Windows.
+      label: path.replaceAll('&', '&&'),
+      click: async () => {
+        recentFiles = await readRecentFiles()
+        buildMenu(window)
+        window.webContents.send('workflow:open-path', path)
+      }
+    })),
+    { type: 'separator' },
+    {
+      label: 'Clear Recent Files',
+      click: async () => {
+        recentFiles = await clearRecentFiles()
+        buildMenu(window)
+      }
+    }
+  ]
+}
+
 function buildMenu(window: BrowserWindow) {
   const template: Electron.MenuItemConstructorOptions[] = [
     {
@@ -33,21 +203,58 @@ function buildMenu(window: BrowserWindow) {
           click: async () => {
             const result = await dialog.showOpenDialog(window, {
               properties: ['openFile'],
-              filters: [
-                { name: 'ComfyUI Workflow', extensions: ['json', 'png'] },
-                { name: 'All Files', extensions: ['*'] }
-              ]
+              filters: WORKFLOW_FILE_FILTERS
             })
             if (result.canceled || result.filePaths.length === 0) return
             window.webContents.send('workflow:open-path', result.filePaths[0]!)
           }
         },
+        { label: 'Open Recent', submenu: recentFilesMenu(window) },
+        {
+          label: 'Open Folder…',
+          accelerator: 'CmdOrCtrl+Shift+O',
+          click: () => sendWorkflowCommand(window, 'open-folder')
+        },
+        {
+          label: 'Search Workflows…',
+          accelerator: 'CmdOrCtrl+Alt+F',
+          click: () => sendWorkflowCommand(window, 'search-workflows')
+        },
         {
           label: 'Close Tab',
           accelerator: 'CmdOrCtrl+W',
           click: () => sendWorkflowCommand(window, 'close-tab')
         },
         { type: 'separator' },
+        {
+          label: 'Load Node Definitions (object_info.json)…',
+          click: () => sendWorkflowCommand(window, 'load-node-definitions')
+        },
+        {
+          label: 'Load Custom Node Map (extension-node-map.json)…',
+          click: () => sendWorkflowCommand(window, 'load-node-map')
+        },
+        { type: 'separator' },
+        {
+          label: 'Export',
+          submenu: [
+            {
+              label: 'Image (PNG/SVG)…',
+              accelerator: 'CmdOrCtrl+E',
+              click: () => sendWorkflowCommand(window, 'export-image')
+            },
+            {
+              label: 'PNG with Workflow…',
+              accelerator: 'CmdOrCtrl+Shift+S',
+              click: () => sendWorkflowCommand(window, 'save-png')
+            },
+            {
+              label: 'API Prompt (JSON)…',
+              click: () => sendWorkflowCommand(window, 'export-api-prompt')
+            }
+          ]
+        },
+        { type: 'separator' },
         { role: 'quit' }
       ]
     },
@@ -79,12 +286,47 @@ function buildMenu(window: BrowserWindow) {
           accelerator: 'CmdOrCtrl+Shift+F',
           click: () => sendWorkflowCommand(window, 'fit')
         },
+        {
+          label: 'Auto Layout',
+          accelerator: 'CmdOrCtrl+Shift+L',
+          click: () => sendWorkflowCommand(window, 'auto-layout')
+        },
+        {
+          label: 'Find Node…',
+          accelerator: 'CmdOrCtrl+F',
+          click: () => sendWorkflowCommand(window, 'find')
+        },
+        {
+          label: 'Compare with…',
+          accelerator: 'CmdOrCtrl+Shift+D',
+          click: () => sendWorkflowCommand(window, 'compare')
+        },
+        {
+          label: 'Dependencies…',
+          accelerator: 'CmdOrCtrl+Shift+K',
+          click: () => sendWorkflowCommand(window, 'dependencies')
+        },
+        {
+          label: 'Model Inventory…',
+          accelerator: 'CmdOrCtrl+Shift+M',
+          click: () => sendWorkflowCommand(window, 'inventory')
+        },
         { type: 'separator' },
         {
           label: 'Toggle Sidebar',
           accelerator: 'CmdOrCtrl+B',
           click: () => sendWorkflowCommand(window, 'toggle-sidebar')
         },
+        {
+          label: 'Toggle Minimap',
+          accelerator: 'CmdOrCtrl+Shift+N',
+          click: () => sendWorkflowCommand(window, 'toggle-minimap')
+        },
+        {
+          label: 'Split View',
+          accelerator: 'CmdOrCtrl+\\',
+          click: () => sendWorkflowCommand(window, 'toggle-split')
+        },
         { type: 'separator' },
         {
           label: 'Next Tab',
@@ -117,134 +359,246 @@ function buildMenu(window: BrowserWindow) {
   Menu.setApplicationMenu(menu)
 }
 
-function parsePngTextChunks(buffer: Buffer): Record<string, string> {
-  const signature = buffer.subarray(0, 8)
-  const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
-  if (!signature.equals(pngSignature)) throw new Error('Not a PNG file')
-
-  const text: Record<string, string> = {}
-  let offset = 8
-
-  const readUInt32BE = (at: number) => buffer.readUInt32BE(at)
-
-  while (offset + 12 <= buffer.length) {
-    const length = readUInt32BE(offset)
-    const type = buffer.subarray(offset + 4, offset + 8).toString('ascii')
-    const dataStart = offset + 8
-    const dataEnd = dataStart + length
-    const next = dataEnd + 4
-    if (next > buffer.length) break
-
-    if (type === 'tEXt') {
-      const data = buffer.subarray(dataStart, dataEnd)
-      const nullIndex = data.indexOf(0)
-      if (nullIndex > 0) {
-        const key = data.subarray(0, nullIndex).toString('latin1')
-        const value = data.subarray(nullIndex + 1).toString('latin1')
-        text[key] = value
-      }
-    } else if (type === 'iTXt') {
-      const data = buffer.subarray(dataStart, dataEnd)
-      let i = 0
-      const keyEnd = data.indexOf(0, i)
-      if (keyEnd <= 0) {
-        offset = next
-        continue
-      }
-      const key = data.subarray(i, keyEnd).toString('latin1')
-      i = keyEnd + 1
-      const compressionFlag = data[i]
-      i += 1
-      i += 1 // compression method
-
-      const languageTagEnd = data.indexOf(0, i)
-      if (languageTagEnd < 0) {
-        offset = next
-        continue
-      }
-      i = languageTagEnd + 1
+function parseWorkflowFromAny(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) return JSON.parse(trimmed)
+  }
+  return value
+}
 
-      const translatedKeywordEnd = data.indexOf(0, i)
-      if (translatedKeywordEnd < 0) {
-        offset = next
-        continue
-      }
-      i = translatedKeywordEnd + 1
+function resolveWorkflow(value: unknown): unknown {
+  if (isApiPrompt(value)) return apiPromptToWorkflow(value)
+  return value
+}
 
-      let valueBytes = data.subarray(i)
-      try {
-        if (compressionFlag === 1) valueBytes = zlib.inflateSync(valueBytes)
-        text[key] = valueBytes.toString('utf8')
-      } catch {
-        // ignore malformed iTXt payload
-      }
-    }
+const WORKFLOW_TEXT_KEYS = ['workflow', 'Workflow', 'prompt', 'Prompt']
+
+const EMPTY_WORKFLOW = { last_node_id: 0, last_link_id: 0, nodes: [], links: [], groups: [], config: {}, extra: {}, version: 0.4 }
 
-    offset = next
-    if (type === 'IEND') break
+// Every metadata key except the workflow/prompt payloads, for the sidebar.
+function otherMetadata(text: Record<string, string>) {
+  const metadata: Record<string, string> = {}
+  for (const [key, value] of Object.entries(text)) {
+    if (!WORKFLOW_TEXT_KEYS.includes(key)) metadata[key] = value
   }
+  return metadata
+}
 
-  return text
+// Automatic1111/Forge: `parameters` in PNG tEXt, EXIF UserComment in JPEG/WebP.
+function payloadFromA1111Text(sourcePath: string, result: MetadataText): WorkflowPayload | null {
+  const { text } = result
+  const parameters = [text['parameters'], text['UserComment'], text['Comment']].find(isA1111Parameters)
+  if (!parameters) return null
+  const record = parseA1111Parameters(parameters)
+  const prompt = a1111ToApiPrompt(record)
+  const workflow = apiPromptToWorkflow(prompt)
+  return {
+    ok: true,
+    sourcePath,
+    workflow: { ...workflow, extra: { converted_from: 'a1111-parameters', a1111_parameters: record } },
+    prompt: JSON.stringify(prompt),
+    metadata: result.metadata ?? otherMetadata(text),
+    warnings: result.warnings ?? []
+  }
 }
 
-function parseWorkflowFromAny(value: unknown): unknown {
-  if (typeof value === 'string') {
-    const trimmed = value.trim()
-    if (trimmed.startsWith('{') || trimmed.startsWith('[')) return JSON.parse(trimmed)
+function describeMissingWorkflow(result: MetadataText, label: string) {
+  const keys = Object.keys(result.metadata ?? result.text)
+  const found = keys.length ? ` (found: ${keys.join(', ')})` : ' (no text metadata found)'
+  const warnings = result.warnings?.length ? `; ${result.warnings.join('; ')}` : ''
+  return `${label} metadata missing workflow, prompt or parameters field${found}${warnings}`
+}
+
+function payloadFromMetadataText(sourcePath: string, result: MetadataText, label: string): WorkflowPayload {
+  const { text } = result
+  const rawWorkflow = text['workflow'] ?? text['Workflow'] ?? text['prompt'] ?? text['Prompt']
+  if (!rawWorkflow) {
+    return payloadFromA1111Text(sourcePath, result) ?? { ok: false, sourcePath, error: describeMissingWorkflow(result, label), reason: 'no-workflow' }
+  }
+  let parsed: unknown = rawWorkflow
+  try {
+    parsed = JSON.parse(rawWorkflow)
+  } catch {
+    // rawWorkflow is not JSON, keep as string
+  }
+  parsed = parseWorkflowFromAny(parsed)
+  const prompt = text['prompt'] ?? text['Prompt']
+  return {
+    ok: true,
+    sourcePath,
+    workflow: resolveWorkflow(parsed),
+    ...(prompt ? { prompt } : {}),
+    metadata: result.metadata ?? otherMetadata(text),
+    warnings: result.warnings ?? []
   }
-  return value
+}
+
+async function loadSafetensorsPayload(sourcePath: string): Promise<WorkflowPayload> {
+  const metadata = await readSafetensorsMetadata(sourcePath)
+  if (WORKFLOW_TEXT_KEYS.some((key) => metadata[key])) return payloadFromMetadataText(sourcePath, { text: metadata }, 'safetensors')
+  // Models trained outside ComfyUI still carry useful provenance; open them with an empty graph.
+  if (Object.keys(metadata).length) return { ok: true, sourcePath, workflow: structuredClone(EMPTY_WORKFLOW), metadata }
+  return { ok: false, sourcePath, error: 'safetensors header has no __metadata__', reason: 'no-workflow' }
 }
 
 async function loadWorkflowFromFile(sourcePath: string): Promise<WorkflowPayload> {
   try {
     const extension = extname(sourcePath).toLowerCase()
-    const buffer = await readFile(sourcePath)
+    if (extension === '.safetensors') return await loadSafetensorsPayload(sourcePath)
+
+    const reader = METADATA_TEXT_READERS[extension]
+    if (extension !== '.json' && !reader) {
+      return { ok: false, sourcePath, error: `Unsupported file type: ${extension || '(none)'}`, reason: 'unsupported' }
+    }
+    const buffer = await readSourceFile(sourcePath, reader?.load)
 
     if (extension === '.json') {
       let json: unknown = JSON.parse(buffer.toString('utf8'))
       if (json && typeof json === 'object' && 'workflow' in json) {
         const embedded = (json as any).workflow
         if (embedded != null) json = parseWorkflowFromAny(embedded)
+      } else if (json && typeof json === 'object' && 'prompt' in json) {
+        // Body of a /prompt request: { "prompt": { "3": { "class_type": … } }, "client_id": … }
+        const embedded = parseWorkflowFromAny((json as any).prompt)
+        if (isApiPrompt(embedded)) json = embedded
       }
-      return { ok: true, sourcePath, workflow: json }
+      const prompt = isApiPrompt(json) ? JSON.stringify(json) : undefined
+      return { ok: true, sourcePath, workflow: resolveWorkflow(json), ...(prompt ? { prompt } : {}) }
     }
 
-    if (extension === '.png') {
-      const text = parsePngTextChunks(buffer)
-      const rawWorkflow = text['workflow'] ?? text['Workflow']
-      if (!rawWorkflow) return { ok: false, sourcePath, error: 'PNG metadata missing workflow field' }
-      let parsed: unknown = rawWorkflow
-      try {
-        parsed = JSON.parse(rawWorkflow)
-      } catch {
-        // rawWorkflow is not JSON, keep as string
-      }
-      parsed = parseWorkflowFromAny(parsed)
-      return { ok: true, sourcePath, workflow: parsed }
-    }
+    return payloadFromMetadataText(sourcePath, reader!.read(buffer), reader!.label)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return { ok: false, sourcePath, error: 'File not found (moved or deleted)' }
+    const message = error instanceof Error ? error.message : String(error)
+    return { ok: false, sourcePath, error: message }
+  }
+}
+
+// Asks for the image to embed into, then where to write the copy (never in place by default).
+async function saveWorkflowIntoPng(window: BrowserWindow, request: SavePngRequest): Promise<SavePngResult> {
+  const source = await dialog.showOpenDialog(window, {
+    title: 'Choose the PNG image to embed the workflow in',
+    properties: ['openFile'],
+    filters: EXPORT_FILE_FILTERS['png']
+  })
+  if (source.canceled || source.filePaths.length === 0) return null
+  const imagePath = source.filePaths[0]!
+
+  try {
+    const text: Record<string, string> = { workflow: request.workflow }
+    if (request.prompt) text['prompt'] = request.prompt
+    const output = writePngTextChunks(await readFile(imagePath), text)
 
-    return { ok: false, sourcePath, error: `Unsupported file type: ${extension || '(none)'}` }
+    const target = await dialog.showSaveDialog(window, {
+      defaultPath: join(dirname(imagePath), `${basename(imagePath, extname(imagePath))}-workflow.png`),
+      filters: EXPORT_FILE_FILTERS['png']
+    })
+    if (target.canceled || !target.filePath) return null
+    await writeFile(target.filePath, output)
+    return { ok: true, savedPath: target.filePath }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { ok: false, error: message }
+  }
+}
+
+async function summarizeLibraryFile(sourcePath: string): Promise<LibrarySummary> {
+  const payload = await loadWorkflowFromFile(sourcePath)
+  if (!payload.ok) return { path: sourcePath, ok: false, error: payload.error }
+  const workflow = payload.workflow as any
+  if (!Array.isArray(workflow?.nodes)) return { path: sourcePath, ok: false, error: 'Not a workflow (no nodes)' }
+  let thumbnail: string | null = null
+  try {
+    thumbnail = createThumbnail(sourcePath)
+  } catch {
+    // Fall back to the drawn preview.
+  }
+  return {
+    path: sourcePath,
+    ok: true,
+    nodeCount: workflow.nodes.length,
+    model: pickModelName(workflow),
+    thumbnail,
+    preview: thumbnail ? null : buildWorkflowPreview(workflow)
+  }
+}
+
+function someObjectValue(value: unknown, test: (entry: any) => boolean) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.values(value as Record<string, unknown>).some(test)
+}
+
+const REFERENCE_FILES: Record<
+  ReferenceKind,
+  { title: string; setting: 'nodeDefinitionsPath' | 'nodeMapPath'; isValid: (value: unknown) => boolean; invalid: string }
+> = {
+  // `/object_info` maps every node type to `{ input: { required, optional }, output, … }`.
+  'node-definitions': {
+    title: 'Choose an object_info.json dumped from ComfyUI',
+    setting: 'nodeDefinitionsPath',
+    isValid: (value) => someObjectValue(value, (def) => def && typeof def === 'object' && def.input && Array.isArray(def.output)),
+    invalid: 'Not an object_info.json dump (no node definitions found)'
+  },
+  // ComfyUI-Manager's extension-node-map.json: `{ repoUrl: [[nodeTypes…], { title_aux, … }] }`.
+  'node-map': {
+    title: 'Choose a custom node map (extension-node-map.json)',
+    setting: 'nodeMapPath',
+    isValid: (value) => someObjectValue(value, (entry) => Array.isArray(entry) && Array.isArray(entry[0])),
+    invalid: 'Not an extension-node-map.json (no node packs found)'
+  }
+}
+
+async function loadReferenceFile(kind: ReferenceKind, sourcePath: string): Promise<ReferencePayload> {
+  try {
+    const data = JSON.parse(await readFile(sourcePath, 'utf8'))
+    if (!REFERENCE_FILES[kind].isValid(data)) return { ok: false, sourcePath, error: REFERENCE_FILES[kind].invalid }
+    return { ok: true, sourcePath, data }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     return { ok: false, sourcePath, error: message }
   }
 }
 
-async function createWindow() {
+// A headless window is never shown and keeps rendering while hidden (for the CLI's image export).
+function createWindow({ headless = false }: { headless?: boolean } = {}) {
   const window = new BrowserWindow({
     width: 1280,
     height: 800,
+    show: !headless,
     backgroundColor: '#0f1115',
     webPreferences: {
       preload: fileURLToPath(new URL('../preload/index.mjs', import.meta.url)),
       contextIsolation: true,
       nodeIntegration: false,
-      sandbox: false
+      sandbox: false,
+      backgroundThrottling: !headless
     }
   })
 
-  buildMenu(window)
+  if (!headless) buildMenu(window)
+  return window
+}
+
+const RENDER_TIMEOUT_MS = 60_000
 
+// Asks the renderer to open the file and draw it the way Export › Image does.
+function renderInWindow(window: BrowserWindow, path: string, scale: number, transparent: boolean): Promise<CliRenderResult> {
+  return new Promise((resolveResult) => {
+    const finish = (result: CliRenderResult) => {
+      clearTimeout(timer)
+      ipcMain.removeListener('cli:render-result', listener)
+      resolveResult(result)
+    }
+    const listener = (_event: Electron.IpcMainEvent, result: CliRenderResult) => finish(result)
+    const timer = setTimeout(() => finish({ ok: false, error: 'Timed out rendering the graph' }), RENDER_TIMEOUT_MS)
+    ipcMain.on('cli:render-result', listener)
+    window.webContents.send('cli:render', { path, scale, transparent })
+  })
+}
+
+// Called once the IPC handlers exist: the renderer invokes some of them while it starts up.
+async function loadRenderer(window: BrowserWindow) {
   const devServerUrl =
     process.env.VITE_DEV_SERVER_URL ??
     process.env.MAIN_VITE_DEV_SERVER_URL ??
@@ -258,20 +612,54 @@ async function createWindow() {
   } else {
     await window.loadFile(fileURLToPath(new URL('../renderer/index.html', import.meta.url)))
   }
-
-  return window
 }
 
+const cliRequest = parseCliArgs(process.argv.slice(process.defaultApp ? 2 : 1))
+// CLI runs are independent of an open viewer: they neither take the lock nor hand over to it.
+const hasInstanceLock = cliRequest ? false : app.requestSingleInstanceLock()
+if (!cliRequest && !hasInstanceLock) app.quit()
+
+// A later launch (double-clicked file, `viewer a.json`) hands its paths to this window and exits.
+app.on('second-instance', (_event, argv, workingDirectory) => {
+  openPaths(pathsFromArgv(argv, workingDirectory))
+  if (!mainWindow || mainWindow.isDestroyed()) return
+  if (mainWindow.isMinimized()) mainWindow.restore()
+  mainWindow.focus()
+})
+
+// macOS delivers files opened from Finder (or dropped on the Dock icon) as events, possibly before ready.
+app.on('open-file', (event, path) => {
+  event.preventDefault()
+  openPaths([path])
+})
+
 app.whenReady().then(async () => {
-  const window = await createWindow()
+  if (cliRequest && !cliRequest.ok) {
+    process.stderr.write(`${cliRequest.error}\n\n${CLI_USAGE}\n`)
+    app.exit(CLI_EXIT_CODES.usage)
+    return
+  }
+  const cli = cliRequest?.options ?? null
+  if (cli && cli.command !== 'export-png') {
+    app.exit(await runCli(cli, { load: loadWorkflowFromFile }))
+    return
+  }
+  if (!cli && !hasInstanceLock) return
+  if (cli) app.dock?.hide()
+  else recentFiles = await readRecentFiles()
+  // Handlers, watchers and the menu act on `window`; on macOS `activate` can replace it after it was closed.
+  let window = createWindow({ headless: Boolean(cli) })
+  const openWindow = async (next: BrowserWindow) => {
+    window = next
+    await loadRenderer(next)
+    mainWindow = next
+    openPaths(pendingOpenPaths.splice(0))
+  }
 
   ipcMain.handle('workflow:open-dialog', async () => {
     const result = await dialog.showOpenDialog(window, {
       properties: ['openFile'],
-      filters: [
-        { name: 'ComfyUI Workflow', extensions: ['json', 'png'] },
-        { name: 'All Files', extensions: ['*'] }
-      ]
+      filters: WORKFLOW_FILE_FILTERS
     })
     if (result.canceled || result.filePaths.length === 0) return null
     return result.filePaths[0]!
@@ -281,13 +669,167 @@ app.whenReady().then(async () => {
     return loadWorkflowFromFile(sourcePath)
   })
 
+  const fileWatcher = createFileWatcher((change) => {
+    if (!window.isDestroyed()) window.webContents.send('workflow:file-changed', change)
+  })
+  app.on('will-quit', () => fileWatcher.dispose())
+
+  // CLI runs leave the viewer's session and recent files alone.
+  ipcMain.handle('session:restore', async () => {
+    return cli ? null : readSession()
+  })
+
+  ipcMain.on('session:save', (event, session: Session) => {
+    try {
+      if (!cli) writeSessionSync(session)
+      event.returnValue = true
+    } catch {
+      event.returnValue = false
+    }
+  })
+
+  ipcMain.handle('recent:add', async (_event, sourcePath: string) => {
+    if (cli) return
+    recentFiles = await addRecentFile(sourcePath)
+    app.addRecentDocument(sourcePath)
+    buildMenu(window)
+  })
+
+  ipcMain.handle('workflow:watch', async (_event, paths: string[]) => {
+    await fileWatcher.setPaths(Array.isArray(paths) ? paths.filter((path) => typeof path === 'string') : [])
+  })
+
+  ipcMain.handle('workflow:save-export', async (_event, request: ExportRequest): Promise<ExportResult> => {
+    const extension = extname(request.defaultName).slice(1).toLowerCase()
+    const result = await dialog.showSaveDialog(window, {
+      defaultPath: request.defaultName,
+      filters: EXPORT_FILE_FILTERS[extension] ?? []
+    })
+    if (result.canceled || !result.filePath) return null
+    try {
+      await writeFile(result.filePath, Buffer.from(request.data, request.encoding))
+      return { ok: true, savedPath: result.filePath }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { ok: false, error: message }
+    }
+  })
+
+  ipcMain.handle('workflow:save-png', async (_event, request: SavePngRequest) => {
+    return saveWorkflowIntoPng(window, request)
+  })
+
+  ipcMain.handle('reference:open-dialog', async (_event, kind: ReferenceKind) => {
+    const result = await dialog.showOpenDialog(window, {
+      title: REFERENCE_FILES[kind].title,
+      properties: ['openFile'],
+      filters: EXPORT_FILE_FILTERS['json']
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return result.filePaths[0]!
+  })
+
+  ipcMain.handle('reference:read-file', async (_event, kind: ReferenceKind, sourcePath: string) => {
+    const payload = await loadReferenceFile(kind, sourcePath)
+    if (payload.ok) await updateSettings({ [REFERENCE_FILES[kind].setting]: sourcePath })
+    return payload
+  })
+
+  ipcMain.handle('reference:restore', async (_event, kind: ReferenceKind) => {
+    const sourcePath = (await readSettings())[REFERENCE_FILES[kind].setting]
+    return sourcePath ? loadReferenceFile(kind, sourcePath) : null
+  })
+
+  ipcMain.handle('assets:choose-models-dir', async () => {
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Choose the ComfyUI/models folder',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    await updateSettings({ modelsDir: result.filePaths[0]! })
+    return result.filePaths[0]!
+  })
+
+  ipcMain.handle('assets:get-models-dir', async () => {
+    return (await readSettings()).modelsDir ?? null
+  })
+
+  ipcMain.handle('assets:verify', async (_event, modelsDir: string, requests: AssetCheckRequest[]) => {
+    return verifyAssets(modelsDir, requests)
+  })
+
+  ipcMain.handle('library:choose-folder', async () => {
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Choose a folder of workflows',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return result.filePaths[0]!
+  })
+
+  ipcMain.handle('library:scan', async (_event, root: string) => {
+    return findWorkflowFiles(root)
+  })
+
+  ipcMain.handle('library:summarize', async (_event, paths: string[]) => {
+    const summaries: LibrarySummary[] = []
+    for (const path of paths) summaries.push(await summarizeLibraryFile(path))
+    return summaries
+  })
+
+  const catalog = createCatalog({
+    storePath: join(app.getPath('userData'), 'workflow-index.json'),
+    readWorkflow: loadWorkflowFromFile,
+    onChange: (status) => {
+      if (!window.isDestroyed()) window.webContents.send('catalog:changed', status)
+    }
+  })
+  if (!cli) catalog.setFolders((await readSettings()).indexFolders ?? [])
+  app.on('will-quit', () => catalog.dispose())
+
+  ipcMain.handle('catalog:status', async () => {
+    return catalog.status()
+  })
+
+  ipcMain.handle('catalog:add-folder', async () => {
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Choose a folder of workflows to index',
+      properties: ['openDirectory']
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    const { indexFolders = [] } = await readSettings()
+    const next = await updateSettings({ indexFolders: [...indexFolders, result.filePaths[0]!] })
+    catalog.setFolders(next.indexFolders ?? [])
+    return catalog.status()
+  })
+
+  ipcMain.handle('catalog:remove-folder', async (_event, folder: string) => {
+    const { indexFolders = [] } = await readSettings()
+    const next = await updateSettings({ indexFolders: indexFolders.filter((entry) => entry !== folder) })
+    catalog.setFolders(next.indexFolders ?? [])
+    return catalog.status()
+  })
+
+  ipcMain.handle('catalog:query', async (_event, query: string) => {
+    return catalog.query(String(query ?? ''))
+  })
+
   ipcMain.handle('clipboard:write-text', async (_event, text: string) => {
     clipboard.writeText(String(text ?? ''))
     return true
   })
 
+  if (cli) {
+    await loadRenderer(window)
+    const render = (path: string, scale: number, transparent: boolean) => renderInWindow(window, path, scale, transparent)
+    app.exit(await runCli(cli, { load: loadWorkflowFromFile, render }))
+    return
+  }
+  pendingOpenPaths.push(...pathsFromArgv(process.argv, process.cwd()))
+  await openWindow(window)
+
   app.on('activate', async () => {
-    if (BrowserWindow.getAllWindows().length === 0) await createWindow()
+    if (BrowserWindow.getAllWindows().length === 0) await openWindow(createWindow())
   })
 })
 
@@ -0,0 +1,158 @@
+import { nativeImage } from 'electron'
+import { readdir, stat } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+
+export type LibraryEntry = {
+  path: string
+  name: string
+  // '/'-separated, relative to the scanned folder.
+  relativePath: string
+  mtimeMs: number
+  size: number
+}
+
+export type WorkflowPreview = {
+  bounds: [number, number, number, number]
+  nodes: Array<[number, number, number, number]>
+  groups: Array<[number, number, number, number]>
+  links: Array<[number, number, number, number]>
+}
+
+export type LibrarySummary =
+  | { path: string; ok: true; nodeCount: number; model: string | null; thumbnail: string | null; preview: WorkflowPreview | null }
+  | { path: string; ok: false; error: string }
+
+// Formats that usually carry a workflow; video/audio and models are left to File › Open.
+const LIBRARY_EXTENSIONS = new Set(['.json', '.png', '.webp', '.jpg', '.jpeg'])
+const THUMBNAIL_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg'])
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '__pycache__'])
+const MAX_LIBRARY_FILES = 20_000
+const MAX_SCAN_DEPTH = 12
+const THUMBNAIL_WIDTH = 320
+const MAX_PREVIEW_NODES = 600
+export const MODEL_FILE_PATTERN = /\.(safetensors|sft|ckpt|pt|pth|bin|gguf)$/i
+// Loaders whose model names the workflow is best described by, most telling first.
+const MAIN_MODEL_TYPE_PATTERNS = [/checkpoint/i, /unet|diffusion/i]
+const NODE_TITLE_HEIGHT = 30
+const NODE_SLOT_HEIGHT = 20
+
+/** Every workflow-capable file below `root` (hidden folders skipped), newest first. */
+export async function findWorkflowFiles(root: string): Promise<LibraryEntry[]> {
+  const entries: LibraryEntry[] = []
+  const walk = async (dir: string, prefix: string, depth: number) => {
+    if (depth > MAX_SCAN_DEPTH || entries.length >= MAX_LIBRARY_FILES) return
+    let items
+    try {
+      items = await readdir(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const item of items) {
+      if (entries.length >= MAX_LIBRARY_FILES) return
+      if (item.name.startsWith('.')) continue
+      const path = join(dir, item.name)
+      const relativePath = prefix ? `${prefix}/${item.name}` : item.name
+      if (item.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(item.name)) await walk(path, relativePath, depth + 1)
+        continue
+      }
+      if (!LIBRARY_EXTENSIONS.has(extname(item.name).toLowerCase())) continue
+      try {
+        const info = await stat(path)
+        if (info.isFile()) entries.push({ path, name: item.name, relativePath, mtimeMs: info.mtimeMs, size: info.size })
+      } catch {
+        // Removed or unreadable since the listing.
+      }
+    }
+  }
+  await walk(root, '', 0)
+  return entries.sort((a, b) => b.mtimeMs - a.mtimeMs || a.relativePath.localeCompare(b.relativePath))
+}
+
+/** A downscaled data URL of an image file, or null when Chromium's decoder cannot read it. */
+export function createThumbnail(path: string): string | null {
+  if (!THUMBNAIL_EXTENSIONS.has(extname(path).toLowerCase())) return null
+  const image = nativeImage.createFromPath(path)
+  if (image.isEmpty()) return null
+  const { width } = image.getSize()
+  return (width > THUMBNAIL_WIDTH ? image.resize({ width: THUMBNAIL_WIDTH, quality: 'good' }) : image).toDataURL()
+}
+
+function vec2(value: any): [number, number] | null {
+  const x = Number(value?.[0])
+  const y = Number(value?.[1])
+  return Number.isFinite(x) && Number.isFinite(y) ? [x, y] : null
+}
+
+// Links are `[id, origin, originSlot, target, targetSlot, type]` before schema 1, objects after.
+function linkEnds(link: any): [number, number, number, number] | null {
+  const ends = Array.isArray(link)
+    ? [link[1], link[2], link[3], link[4]]
+    : [link?.origin_id, link?.origin_slot, link?.target_id, link?.target_slot]
+  const numbers = ends.map(Number)
+  return numbers.every(Number.isFinite) ? (numbers as [number, number, number, number]) : null
+}
+
+/** Node and link geometry of the top level, for drawing a thumbnail-sized overview. */
+export function buildWorkflowPreview(workflow: any): WorkflowPreview | null {
+  const rects = new Map<number, [number, number, number, number]>()
+  for (const node of Array.isArray(workflow?.nodes) ? (workflow.nodes as any[]).slice(0, MAX_PREVIEW_NODES) : []) {
+    const pos = vec2(node?.pos)
+    if (!pos) continue
+    const size = vec2(node?.size) ?? [200, 60]
+    const height = node?.flags?.collapsed ? 0 : size[1]
+    rects.set(Number(node?.id), [pos[0], pos[1] - NODE_TITLE_HEIGHT, size[0], height + NODE_TITLE_HEIGHT])
+  }
+  if (!rects.size) return null
+
+  const groups: WorkflowPreview['groups'] = []
+  for (const group of Array.isArray(workflow?.groups) ? (workflow.groups as any[]) : []) {
+    const bounding = group?.bounding
+    if (Array.isArray(bounding) && bounding.length === 4 && bounding.every(Number.isFinite)) {
+      groups.push(bounding as [number, number, number, number])
+    }
+  }
+
+  const links: WorkflowPreview['links'] = []
+  for (const link of Array.isArray(workflow?.links) ? (workflow.links as any[]) : []) {
+    const ends = linkEnds(link)
+    const origin = ends && rects.get(ends[0])
+    const target = ends && rects.get(ends[2])
+    if (!ends || !origin || !target) continue
+    const slotY = (rect: number[], slot: number) => rect[1]! + NODE_TITLE_HEIGHT + (slot + 0.5) * NODE_SLOT_HEIGHT
+    links.push([origin[0] + origin[2], slotY(origin, ends[1]), target[0], slotY(target, ends[3])])
+  }
+
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const [x, y, width, height] of [...rects.values(), ...groups]) {
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x + width)
+    maxY = Math.max(maxY, y + height)
+  }
+  return { bounds: [minX, minY, maxX - minX, maxY - minY], nodes: Array.from(rects.values()), groups, links }
+}
+
+function* allNodes(workflow: any): Generator<any> {
+  if (Array.isArray(workflow?.nodes)) yield* workflow.nodes
+  for (const subgraph of Array.isArray(workflow?.definitions?.subgraphs) ? workflow.definitions.subgraphs : []) {
+    if (Array.isArray(subgraph?.nodes)) yield* subgraph.nodes
+  }
+}
+
+/** The checkpoint (or diffusion model) the workflow loads, falling back to any model file it names. */
+export function pickModelName(workflow: any): string | null {
+  const found: Array<{ rank: number; name: string }> = []
+  for (const node of allNodes(workflow)) {
+    if (node?.mode === 2 || node?.mode === 4) continue
+    const values: unknown[] = Array.isArray(node?.widgets_values) ? node.widgets_values : []
+    const name = values.find((value): value is string => typeof value === 'string' && MODEL_FILE_PATTERN.test(value))
+    if (!name) continue
+    const type = String(node?.type ?? '')
+    const rank = MAIN_MODEL_TYPE_PATTERNS.findIndex((pattern) => pattern.test(type))
+    found.push({ rank: rank === -1 ? MAIN_MODEL_TYPE_PATTERNS.length : rank, name })
+  }
+  if (!found.length) return null
+  const best = found.reduce((a, b) => (b.rank < a.rank ? b : a))
+  return best.name.split(/[\\/]/).at(-1)!
+}
@@ -0,0 +1,352 @@
+import type { FileHandle } from 'node:fs/promises'
+import { findBox, readBoxes, type Box } from './bmff'
+import { isApiPrompt } from './prompt'
+
+const MP4_TEXT_ATOMS: Record<string, string> = {
+  '©cmt': 'comment',
+  '©des': 'description',
+  desc: 'description',
+  ldes: 'description'
+}
+
+/**
+ * VideoHelperSuite stores `{"prompt": …, "workflow": …}` as one JSON comment; split it
+ * into the same keys the image readers produce.
+ */
+function expandCommentJson(text: Record<string, string>) {
+  for (const key of ['comment', 'description']) {
+    const value = text[key]?.trim()
+    if (!value?.startsWith('{')) continue
+    let parsed: any
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      continue
+    }
+    if (Array.isArray(parsed?.nodes)) text['workflow'] ??= value
+    else if (isApiPrompt(parsed)) text['prompt'] ??= value
+    else {
+      for (const field of ['workflow', 'prompt']) {
+        const embedded = parsed?.[field]
+        if (embedded == null) continue
+        text[field] ??= typeof embedded === 'string' ? embedded : JSON.stringify(embedded)
+      }
+    }
+  }
+  return text
+}
+
+function readIlstItems(buffer: Buffer, ilst: Box, text: Record<string, string>) {
+  for (const item of readBoxes(buffer, ilst.dataStart, ilst.end)) {
+    const children = readBoxes(buffer, item.dataStart, item.end)
+    const data = children.find((box) => box.type === 'data')
+    if (!data || data.end - data.dataStart < 8) continue
+    // data: 4 bytes type indicator, 4 bytes locale, then the value.
+    const value = buffer.subarray(data.dataStart + 8, data.end).toString('utf8')
+
+    if (item.type === '----') {
+      const name = children.find((box) => box.type === 'name')
+      if (name) text[buffer.subarray(name.dataStart + 4, name.end).toString('utf8').toLowerCase()] = value
+      continue
+    }
+    const key = MP4_TEXT_ATOMS[item.type]
+    if (key) text[key] = value
+  }
+}
+
+function readMetaBox(buffer: Buffer, meta: Box, text: Record<string, string>) {
+  // ISO `meta` is a full box; QuickTime writers sometimes omit version/flags.
+  const isFullBox = buffer.readUInt32BE(meta.dataStart) === 0
+  const children = readBoxes(buffer, meta.dataStart + (isFullBox ? 4 : 0), meta.end)
+  const ilst = children.find((box) => box.type === 'ilst')
+  if (ilst) readIlstItems(buffer, ilst, text)
+}
+
+export function parseMp4Text(buffer: Buffer): Record<string, string> {
+  const boxes = readBoxes(buffer)
+  const moov = findBox(buffer, boxes, ['moov'])
+  if (!moov) throw new Error('MP4 file has no moov box')
+
+  const text: Record<string, string> = {}
+  const moovChildren = readBoxes(buffer, moov.dataStart, moov.end)
+  const moovMeta = moovChildren.find((box) => box.type === 'meta')
+  if (moovMeta) readMetaBox(buffer, moovMeta, text)
+
+  const udta = moovChildren.find((box) => box.type === 'udta')
+  if (udta) {
+    for (const child of readBoxes(buffer, udta.dataStart, udta.end)) {
+      if (child.type === 'meta') {
+        readMetaBox(buffer, child, text)
+        continue
+      }
+      // QuickTime user data text: 16-bit length, 16-bit language, then the string.
+      const key = MP4_TEXT_ATOMS[child.type]
+      if (!key || child.end - child.dataStart < 4) continue
+      const length = buffer.readUInt16BE(child.dataStart)
+      const start = child.dataStart + 4
+      text[key] ??= buffer.subarray(start, Math.min(child.end, start + length)).toString('utf8')
+    }
+  }
+
+  return expandCommentJson(text)
+}
+
+const EBML_HEADER = 0x1a45dfa3
+const MKV_SEGMENT = 0x18538067
+const MKV_TAGS = 0x1254c367
+const MKV_TAG = 0x7373
+const MKV_SIMPLE_TAG = 0x67c8
+const MKV_TAG_NAME = 0x45a3
+const MKV_TAG_STRING = 0x4487
+
+type EbmlElement = { id: number; dataStart: number; end: number; unknownSize: boolean }
+
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean) {
+  const first = buffer[offset]
+  if (first == null || first === 0) return null
+  const length = Math.clz32(first) - 23
+  if (offset + length > buffer.length) return null
+  let value = keepMarker ? first : first & (0xff >> length)
+  let allOnes = value === 0xff >> length
+  for (let i = 1; i < length; i++) {
+    const byte = buffer[offset + i]!
+    value = value * 256 + byte
+    if (byte !== 0xff) allOnes = false
+  }
+  return { value, length, allOnes }
+}
+
+function readEbmlElements(buffer: Buffer, start: number, end: number) {
+  const elements: EbmlElement[] = []
+  let offset = start
+  while (offset < end) {
+    const id = readVint(buffer, offset, true)
+    if (!id) break
+    const size = readVint(buffer, offset + id.length, false)
+    if (!size) break
+    const dataStart = offset + id.length + size.length
+    const unknownSize = size.allOnes
+    const elementEnd = unknownSize ? end : Math.min(end, dataStart + size.value)
+    elements.push({ id: id.value, dataStart, end: elementEnd, unknownSize })
+    // An unknown-size element swallows the rest of its parent; only the segment is worth entering.
+    if (unknownSize && id.value !== MKV_SEGMENT) break
+    offset = elementEnd
+  }
+  return elements
+}
+
+function readSimpleTags(buffer: Buffer, parent: EbmlElement, text: Record<string, string>) {
+  for (const simpleTag of readEbmlElements(buffer, parent.dataStart, parent.end)) {
+    if (simpleTag.id !== MKV_SIMPLE_TAG) continue
+    const children = readEbmlElements(buffer, simpleTag.dataStart, simpleTag.end)
+    const name = children.find((el) => el.id === MKV_TAG_NAME)
+    const value = children.find((el) => el.id === MKV_TAG_STRING)
+    if (name && value) {
+      const key = buffer.subarray(name.dataStart, name.end).toString('utf8').toLowerCase()
+      text[key] = buffer.subarray(value.dataStart, value.end).toString('utf8')
+    }
+    readSimpleTags(buffer, simpleTag, text)
+  }
+}
+
+export function parseMatroskaText(buffer: Buffer): Record<string, string> {
+  const top = readEbmlElements(buffer, 0, buffer.length)
+  if (top[0]?.id !== EBML_HEADER) throw new Error('Not a Matroska/WebM file')
+  const segment = top.find((el) => el.id === MKV_SEGMENT)
+  if (!segment) throw new Error('Matroska file has no segment')
+
+  const text: Record<string, string> = {}
+  for (const el of readEbmlElements(buffer, segment.dataStart, segment.end)) {
+    if (el.id !== MKV_TAGS) continue
+    for (const tag of readEbmlElements(buffer, el.dataStart, el.end)) {
+      if (tag.id === MKV_TAG) readSimpleTags(buffer, tag, text)
+    }
+  }
+  return expandCommentJson(text)
+}
+
+function parseVorbisComment(data: Buffer, text: Record<string, string>) {
+  let offset = 0
+  const vendorLength = data.readUInt32LE(offset)
+  offset += 4 + vendorLength
+  const count = data.readUInt32LE(offset)
+  offset += 4
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset)
+    offset += 4
+    const entry = data.subarray(offset, offset + length).toString('utf8')
+    offset += length
+    const eq = entry.indexOf('=')
+    if (eq <= 0) continue
+    text[entry.slice(0, eq).toLowerCase()] = entry.slice(eq + 1)
+  }
+}
+
+export function parseFlacText(buffer: Buffer): Record<string, string> {
+  if (buffer.subarray(0, 4).toString('latin1') !== 'fLaC') throw new Error('Not a FLAC file')
+
+  const text: Record<string, string> = {}
+  let offset = 4
+  while (offset + 4 <= buffer.length) {
+    const header = buffer[offset]!
+    const isLast = (header & 0x80) !== 0
+    const type = header & 0x7f
+    const length = buffer.readUIntBE(offset + 1, 3)
+    const dataStart = offset + 4
+    if (dataStart + length > buffer.length) break
+    if (type === 4) parseVorbisComment(buffer.subarray(dataStart, dataStart + length), text)
+    offset = dataStart + length
+    if (isLast) break
+  }
+  return expandCommentJson(text)
+}
+
+/** Reassembles the first `limit` logical packets of an Ogg stream (comments span many pages). */
+function readOggPackets(buffer: Buffer, limit: number) {
+  const packets: Buffer[] = []
+  let pending: Buffer[] = []
+  let offset = 0
+  while (offset + 27 <= buffer.length && packets.length < limit) {
+    if (buffer.subarray(offset, offset + 4).toString('latin1') !== 'OggS') throw new Error('Invalid Ogg page')
+    const segmentCount = buffer[offset + 26]!
+    const table = buffer.subarray(offset + 27, offset + 27 + segmentCount)
+    let dataOffset = offset + 27 + segmentCount
+    for (const lacing of table) {
+      pending.push(buffer.subarray(dataOffset, dataOffset + lacing))
+      dataOffset += lacing
+      if (lacing < 255) {
+        packets.push(Buffer.concat(pending))
+        pending = []
+        if (packets.length >= limit) break
+      }
+    }
+    offset = dataOffset
+  }
+  return packets
+}
+
+export function parseOggText(buffer: Buffer): Record<string, string> {
+  if (buffer.subarray(0, 4).toString('latin1') !== 'OggS') throw new Error('Not an Ogg file')
+
+  const text: Record<string, string> = {}
+  const comment = readOggPackets(buffer, 2)[1]
+  if (!comment) return text
+  if (comment.subarray(0, 8).toString('latin1') === 'OpusTags') parseVorbisComment(comment.subarray(8), text)
+  else if (comment[0] === 3 && comment.subarray(1, 7).toString('latin1') === 'vorbis') parseVorbisComment(comment.subarray(7), text)
+  return expandCommentJson(text)
+}
+
+// Metadata lives in a small part of media files; these read just that part, never the media data.
+const MAX_METADATA_BYTES = 64 * 1024 * 1024
+const MAX_HEADER_WALK = 100_000
+
+async function readAt(handle: FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+function checkMetadataSize(length: number, label: string) {
+  if (length > MAX_METADATA_BYTES) throw new Error(`${label} is too large (${Math.round(length / 1024 / 1024)} MB)`)
+}
+
+/** The top-level `moov` box on its own, which is all `parseMp4Text` needs. */
+export async function readMp4Header(handle: FileHandle): Promise<Buffer> {
+  const { size: fileSize } = await handle.stat()
+  let offset = 0
+  for (let i = 0; i < MAX_HEADER_WALK && offset + 8 <= fileSize; i++) {
+    const header = await readAt(handle, offset, 16)
+    if (header.length < 8) break
+    let size = header.readUInt32BE(0)
+    const type = header.subarray(4, 8).toString('latin1')
+    if (size === 1) {
+      if (header.length < 16) break
+      size = Number(header.readBigUInt64BE(8))
+    } else if (size === 0) {
+      size = fileSize - offset
+    }
+    if (size < 8) break
+    if (type === 'moov') {
+      checkMetadataSize(size, 'MP4 moov box')
+      return readAt(handle, offset, size)
+    }
+    offset += size
+  }
+  throw new Error('MP4 file has no moov box')
+}
+
+/** The EBML header plus the segment's Tags elements, under a segment of unknown size. */
+export async function readMatroskaHeader(handle: FileHandle): Promise<Buffer> {
+  const { size: fileSize } = await handle.stat()
+  const readElementHeader = async (offset: number) => {
+    const bytes = await readAt(handle, offset, 12)
+    const id = readVint(bytes, 0, true)
+    const size = id && readVint(bytes, id.length, false)
+    if (!id || !size) return null
+    const dataStart = offset + id.length + size.length
+    return { id: id.value, start: offset, dataStart, end: size.allOnes ? fileSize : dataStart + size.value, unknownSize: size.allOnes }
+  }
+
+  const ebml = await readElementHeader(0)
+  if (ebml?.id !== EBML_HEADER) throw new Error('Not a Matroska/WebM file')
+  checkMetadataSize(ebml.end, 'Matroska header')
+  const segment = await readElementHeader(ebml.end)
+  if (segment?.id !== MKV_SEGMENT) throw new Error('Matroska file has no segment')
+
+  const parts = [await readAt(handle, 0, ebml.end), Buffer.from([0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])]
+  let total = 0
+  let offset = segment.dataStart
+  for (let i = 0; i < MAX_HEADER_WALK && offset < Math.min(segment.end, fileSize); i++) {
+    const element = await readElementHeader(offset)
+    // Live-streamed clusters have no size, so nothing after them can be found without reading them.
+    if (!element || element.unknownSize) break
+    if (element.id === MKV_TAGS) {
+      total += element.end - element.start
+      checkMetadataSize(total, 'Matroska tags')
+      parts.push(await readAt(handle, element.start, element.end - element.start))
+    }
+    offset = element.end
+  }
+  return Buffer.concat(parts)
+}
+
+/** The `fLaC` marker and the VORBIS_COMMENT blocks. */
+export async function readFlacHeader(handle: FileHandle): Promise<Buffer> {
+  const parts = [await readAt(handle, 0, 4)]
+  let total = 0
+  let offset = 4
+  for (let i = 0; i < MAX_HEADER_WALK; i++) {
+    const header = await readAt(handle, offset, 4)
+    if (header.length < 4) break
+    const length = header.readUIntBE(1, 3)
+    if ((header[0]! & 0x7f) === 4) {
+      total += 4 + length
+      checkMetadataSize(total, 'FLAC comments')
+      parts.push(await readAt(handle, offset, 4 + length))
+    }
+    offset += 4 + length
+    if (header[0]! & 0x80) break
+  }
+  return Buffer.concat(parts)
+}
+
+/** The Ogg pages up to the end of the comment packet, which follows the identification header. */
+export async function readOggHeader(handle: FileHandle): Promise<Buffer> {
+  const parts: Buffer[] = []
+  let total = 0
+  let packets = 0
+  let offset = 0
+  for (let i = 0; i < MAX_HEADER_WALK && packets < 2; i++) {
+    const header = await readAt(handle, offset, 27)
+    if (header.length < 27) break
+    const table = await readAt(handle, offset + 27, header[26]!)
+    const pageLength = 27 + table.length + table.reduce((sum, lacing) => sum + lacing, 0)
+    total += pageLength
+    checkMetadataSize(total, 'Ogg comments')
+    parts.push(await readAt(handle, offset, pageLength))
+    // A lacing value under 255 ends a packet.
+    packets += table.filter((lacing) => lacing < 255).length
+    offset += pageLength
+  }
+  return Buffer.concat(parts)
+}
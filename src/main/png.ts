@@ -0,0 +1,210 @@
+import zlib from 'node:zlib'
+
+export type PngTextEntry = { chunk: 'tEXt' | 'zTXt' | 'iTXt'; key: string; value: string }
+
+export type PngMetadata = {
+  text: Record<string, string>
+  entries: PngTextEntry[]
+  warnings: string[]
+  frames: number | null
+}
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(...parts: Buffer[]) {
+  let crc = 0xffffffff
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) crc = CRC_TABLE[(crc ^ part[i]!) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Workflows are rarely more than a few MB; anything past this is a zip bomb, not metadata.
+const MAX_INFLATED_TEXT_BYTES = 32 * 1024 * 1024
+
+function inflateText(data: Buffer) {
+  try {
+    return zlib.inflateSync(data, { maxOutputLength: MAX_INFLATED_TEXT_BYTES })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`compressed text expands past ${MAX_INFLATED_TEXT_BYTES / 1024 / 1024} MB`)
+    }
+    throw error
+  }
+}
+
+function readTextChunk(data: Buffer): Pick<PngTextEntry, 'key' | 'value'> {
+  const nullIndex = data.indexOf(0)
+  if (nullIndex <= 0) throw new Error('missing keyword')
+  return { key: data.subarray(0, nullIndex).toString('latin1'), value: data.subarray(nullIndex + 1).toString('latin1') }
+}
+
+function readCompressedTextChunk(data: Buffer): Pick<PngTextEntry, 'key' | 'value'> {
+  const nullIndex = data.indexOf(0)
+  if (nullIndex <= 0) throw new Error('missing keyword')
+  const method = data[nullIndex + 1]
+  if (method !== 0) throw new Error(`unknown compression method ${method}`)
+  const value = inflateText(data.subarray(nullIndex + 2)).toString('latin1')
+  return { key: data.subarray(0, nullIndex).toString('latin1'), value }
+}
+
+function readInternationalTextChunk(data: Buffer): Pick<PngTextEntry, 'key' | 'value'> {
+  const keyEnd = data.indexOf(0)
+  if (keyEnd <= 0) throw new Error('missing keyword')
+  const key = data.subarray(0, keyEnd).toString('latin1')
+  let i = keyEnd + 1
+  const compressionFlag = data[i]
+  i += 2 // compression flag + compression method
+
+  const languageTagEnd = data.indexOf(0, i)
+  if (languageTagEnd < 0) throw new Error('missing language tag terminator')
+  i = languageTagEnd + 1
+
+  const translatedKeywordEnd = data.indexOf(0, i)
+  if (translatedKeywordEnd < 0) throw new Error('missing translated keyword terminator')
+  i = translatedKeywordEnd + 1
+
+  let valueBytes = data.subarray(i)
+  if (compressionFlag === 1) valueBytes = inflateText(valueBytes)
+  return { key, value: valueBytes.toString('utf8') }
+}
+
+const TEXT_CHUNK_READERS: Record<PngTextEntry['chunk'], (data: Buffer) => Pick<PngTextEntry, 'key' | 'value'>> = {
+  tEXt: readTextChunk,
+  zTXt: readCompressedTextChunk,
+  iTXt: readInternationalTextChunk
+}
+
+/**
+ * Walks every PNG chunk, collecting tEXt/zTXt/iTXt entries. Damage (bad CRCs, truncation,
+ * broken text payloads, out-of-order APNG sequence numbers) becomes a warning rather
+ * than an exception, so whatever metadata survived is still returned.
+ */
+export function readPngMetadata(buffer: Buffer): PngMetadata {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('Not a PNG file')
+
+  const entries: PngTextEntry[] = []
+  const warnings: string[] = []
+  let frames: number | null = null
+  let expectedSequence = 0
+  let sawEnd = false
+  let offset = 8
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.subarray(offset + 4, offset + 8).toString('latin1')
+    const dataStart = offset + 8
+    const dataEnd = dataStart + length
+    if (dataEnd + 4 > buffer.length) {
+      warnings.push(`File is truncated inside ${type} chunk at byte ${offset}`)
+      break
+    }
+
+    const data = buffer.subarray(dataStart, dataEnd)
+    const storedCrc = buffer.readUInt32BE(dataEnd)
+    const crcOk = crc32(buffer.subarray(offset + 4, offset + 8), data) === storedCrc
+    if (!crcOk) warnings.push(`CRC mismatch in ${type} chunk at byte ${offset}`)
+
+    if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      try {
+        entries.push({ chunk: type, ...TEXT_CHUNK_READERS[type](data) })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        warnings.push(`Malformed ${type} chunk at byte ${offset}: ${message}`)
+      }
+    } else if (type === 'acTL' && length >= 8) {
+      frames = data.readUInt32BE(0)
+    } else if ((type === 'fcTL' || type === 'fdAT') && length >= 4) {
+      const sequence = data.readUInt32BE(0)
+      if (sequence !== expectedSequence) warnings.push(`APNG ${type} sequence ${sequence} where ${expectedSequence} was expected`)
+      expectedSequence = sequence + 1
+    }
+
+    offset = dataEnd + 4
+    if (type === 'IEND') {
+      sawEnd = true
+      break
+    }
+  }
+
+  if (!sawEnd && !warnings.some((warning) => warning.startsWith('File is truncated'))) {
+    warnings.push('File has no IEND chunk (truncated?)')
+  }
+
+  const text: Record<string, string> = {}
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    counts.set(entry.key, (counts.get(entry.key) ?? 0) + 1)
+    text[entry.key] = entry.value
+  }
+  for (const [key, count] of counts) {
+    if (count > 1) warnings.push(`${count} "${key}" text chunks found; using the last one`)
+  }
+
+  return { text, entries, warnings, frames }
+}
+
+function buildChunk(type: string, data: Buffer) {
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(data.length, 0)
+  header.write(type, 4, 'latin1')
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(header.subarray(4, 8), data), 0)
+  return Buffer.concat([header, data, crc])
+}
+
+// Same rule as PIL's PngInfo.add_text: tEXt when the value fits Latin-1, uncompressed iTXt otherwise.
+function buildTextChunk(key: string, value: string) {
+  const keyword = Buffer.from(key, 'latin1')
+  if (/^[\u0000-\u00ff]*$/.test(value)) return buildChunk('tEXt', Buffer.concat([keyword, Buffer.from([0]), Buffer.from(value, 'latin1')]))
+  // keyword\0, compression flag, compression method, empty language tag\0, empty translated keyword\0
+  return buildChunk('iTXt', Buffer.concat([keyword, Buffer.from([0, 0, 0, 0, 0]), Buffer.from(value, 'utf8')]))
+}
+
+/**
+ * Returns a copy of the PNG with `text` written as text chunks in front of the image data.
+ * Existing tEXt/zTXt/iTXt chunks with the same keywords are dropped; every other chunk is
+ * copied byte for byte.
+ */
+export function writePngTextChunks(buffer: Buffer, text: Record<string, string>): Buffer {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('Not a PNG file')
+
+  const keys = new Set(Object.keys(text))
+  const parts: Buffer[] = [PNG_SIGNATURE]
+  let inserted = false
+  let offset = 8
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.subarray(offset + 4, offset + 8).toString('latin1')
+    const end = offset + 12 + length
+    if (end > buffer.length) throw new Error(`PNG is truncated inside ${type} chunk at byte ${offset}`)
+
+    if (!inserted && (type === 'IDAT' || type === 'IEND')) {
+      for (const [key, value] of Object.entries(text)) parts.push(buildTextChunk(key, value))
+      inserted = true
+    }
+
+    const data = buffer.subarray(offset + 8, offset + 8 + length)
+    const isText = type === 'tEXt' || type === 'zTXt' || type === 'iTXt'
+    const nullIndex = isText ? data.indexOf(0) : -1
+    const replaced = nullIndex > 0 && keys.has(data.subarray(0, nullIndex).toString('latin1'))
+    if (!replaced) parts.push(buffer.subarray(offset, end))
+
+    offset = end
+    if (type === 'IEND') break
+  }
+
+  if (!inserted) throw new Error('PNG has no image data')
+  return Buffer.concat(parts)
+}
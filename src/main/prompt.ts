@@ -0,0 +1,166 @@
+type ApiPromptNode = {
+  class_type: string
+  inputs?: Record<string, unknown>
+  _meta?: { title?: string }
+}
+
+export type ApiPrompt = Record<string, ApiPromptNode>
+
+type BuiltSlot = { name: string; type: string; link?: number | null; links?: number[] | null; slot_index?: number }
+
+type BuiltNode = {
+  id: number
+  type: string
+  title?: string
+  size: [number, number]
+  flags: Record<string, unknown>
+  order: number
+  mode: number
+  inputs: BuiltSlot[]
+  outputs: BuiltSlot[]
+  properties: Record<string, unknown>
+  widgets_values: unknown[]
+}
+
+const NODE_WIDTH = 320
+// Names of the literal inputs kept as widget values, in order; no node definition may be loaded to label them.
+const WIDGET_NAMES_PROPERTY = 'Widget names'
+
+// API prompts carry no slot types, so guess them from the conventional input names.
+const INPUT_NAME_TYPES: Record<string, string> = {
+  model: 'MODEL',
+  clip: 'CLIP',
+  vae: 'VAE',
+  positive: 'CONDITIONING',
+  negative: 'CONDITIONING',
+  conditioning: 'CONDITIONING',
+  conditioning_1: 'CONDITIONING',
+  conditioning_2: 'CONDITIONING',
+  conditioning_to: 'CONDITIONING',
+  conditioning_from: 'CONDITIONING',
+  latent_image: 'LATENT',
+  samples: 'LATENT',
+  latent: 'LATENT',
+  image: 'IMAGE',
+  images: 'IMAGE',
+  pixels: 'IMAGE',
+  mask: 'MASK',
+  control_net: 'CONTROL_NET',
+  clip_vision: 'CLIP_VISION',
+  clip_vision_output: 'CLIP_VISION_OUTPUT',
+  upscale_model: 'UPSCALE_MODEL',
+  style_model: 'STYLE_MODEL'
+}
+
+function isLinkReference(value: unknown): value is [string | number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    (typeof value[0] === 'string' || typeof value[0] === 'number') &&
+    typeof value[1] === 'number' &&
+    Number.isInteger(value[1])
+  )
+}
+
+function guessInputType(name: string) {
+  return INPUT_NAME_TYPES[name.toLowerCase()] ?? '*'
+}
+
+export function isApiPrompt(value: unknown): value is ApiPrompt {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const entries = Object.entries(value as Record<string, unknown>)
+  if (!entries.length) return false
+  return entries.every(([, node]) => {
+    if (!node || typeof node !== 'object') return false
+    const classType = (node as any).class_type
+    const inputs = (node as any).inputs
+    return typeof classType === 'string' && (inputs == null || (typeof inputs === 'object' && !Array.isArray(inputs)))
+  })
+}
+
+function assignNodeIds(keys: string[]) {
+  const ids = new Map<string, number>()
+  let nextId = 1
+  for (const key of keys) {
+    if (/^\d+$/.test(key)) nextId = Math.max(nextId, Number(key) + 1)
+  }
+  for (const key of keys) {
+    ids.set(key, /^\d+$/.test(key) ? Number(key) : nextId++)
+  }
+  return ids
+}
+
+export function apiPromptToWorkflow(prompt: ApiPrompt) {
+  const keys = Object.keys(prompt)
+  const ids = assignNodeIds(keys)
+  const nodes: BuiltNode[] = []
+  const byKey = new Map<string, BuiltNode>()
+
+  for (const key of keys) {
+    const entry = prompt[key]!
+    const title = typeof entry._meta?.title === 'string' && entry._meta.title !== entry.class_type ? entry._meta.title : undefined
+    const node: BuiltNode = {
+      id: ids.get(key)!,
+      type: entry.class_type,
+      ...(title ? { title } : {}),
+      size: [NODE_WIDTH, 60],
+      flags: {},
+      order: nodes.length,
+      mode: 0,
+      inputs: [],
+      outputs: [],
+      properties: { 'Node name for S&R': entry.class_type, [WIDGET_NAMES_PROPERTY]: [] },
+      widgets_values: []
+    }
+    nodes.push(node)
+    byKey.set(key, node)
+  }
+
+  const links: Array<[number, number, number, number, number, string]> = []
+
+  for (const key of keys) {
+    const target = byKey.get(key)!
+    const inputs = prompt[key]!.inputs ?? {}
+    for (const [name, value] of Object.entries(inputs)) {
+      if (!isLinkReference(value)) {
+        target.widgets_values.push(value)
+        ;(target.properties[WIDGET_NAMES_PROPERTY] as string[]).push(name)
+        continue
+      }
+
+      const type = guessInputType(name)
+      const origin = byKey.get(String(value[0]))
+      const inputSlot: BuiltSlot = { name, type, link: null }
+      target.inputs.push(inputSlot)
+      if (!origin) continue
+
+      const originSlot = value[1]
+      while (origin.outputs.length <= originSlot) {
+        const index = origin.outputs.length
+        origin.outputs.push({ name: '*', type: '*', links: [], slot_index: index })
+      }
+      const output = origin.outputs[originSlot]!
+      if (output.type === '*' && type !== '*') {
+        output.type = type
+        output.name = type
+      }
+
+      const linkId = links.length + 1
+      links.push([linkId, origin.id, originSlot, target.id, target.inputs.length - 1, type])
+      inputSlot.link = linkId
+      output.links!.push(linkId)
+    }
+  }
+
+  // Nodes carry no positions: the viewer lays out such graphs when it loads them.
+  return {
+    last_node_id: nodes.reduce((max, node) => Math.max(max, node.id), 0),
+    last_link_id: links.length,
+    nodes,
+    links,
+    groups: [],
+    config: {},
+    extra: { converted_from: 'api-prompt' },
+    version: 0.4
+  }
+}
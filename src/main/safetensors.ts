@@ -0,0 +1,39 @@
+import { open } from 'node:fs/promises'
+
+const MAX_HEADER_BYTES = 100 * 1024 * 1024
+
+/**
+ * Reads only the length-prefixed JSON header of a `.safetensors` file and returns its
+ * `__metadata__` map; the tensor data after the header is never touched.
+ */
+export async function readSafetensorsMetadata(sourcePath: string): Promise<Record<string, string>> {
+  const handle = await open(sourcePath, 'r')
+  try {
+    const prefix = Buffer.alloc(8)
+    const { bytesRead } = await handle.read(prefix, 0, 8, 0)
+    if (bytesRead < 8) throw new Error('safetensors file is truncated')
+
+    const headerLength = Number(prefix.readBigUInt64LE(0))
+    if (headerLength <= 0 || headerLength > MAX_HEADER_BYTES) throw new Error('Not a safetensors file (invalid header length)')
+
+    const header = Buffer.alloc(headerLength)
+    const result = await handle.read(header, 0, headerLength, 8)
+    if (result.bytesRead < headerLength) throw new Error('safetensors header is truncated')
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(header.toString('utf8'))
+    } catch {
+      throw new Error('Not a safetensors file (header is not JSON)')
+    }
+
+    const metadata: Record<string, string> = {}
+    const raw = parsed?.__metadata__
+    if (raw && typeof raw === 'object') {
+      for (const [key, value] of Object.entries(raw)) metadata[key] = typeof value === 'string' ? value : JSON.stringify(value)
+    }
+    return metadata
+  } finally {
+    await handle.close()
+  }
+}
@@ -0,0 +1,70 @@
+import { app } from 'electron'
+import { statSync, writeFileSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { readSettings, updateSettings } from './settings'
+
+export type SessionTab = { sourcePath: string; view: { offset: [number, number]; scale: number } | null }
+
+export type Session = { tabs: SessionTab[]; activeIndex: number; sidebarVisible: boolean }
+
+const MAX_RECENT_FILES = 10
+
+function sessionPath() {
+  return join(app.getPath('userData'), 'session.json')
+}
+
+function isFile(path: string) {
+  try {
+    return statSync(path).isFile()
+  } catch {
+    return false
+  }
+}
+
+function readView(value: any): SessionTab['view'] {
+  const offset = [Number(value?.offset?.[0]), Number(value?.offset?.[1])] as [number, number]
+  const scale = Number(value?.scale)
+  return offset.every(Number.isFinite) && scale > 0 ? { offset, scale } : null
+}
+
+/** The tabs open when the app last quit; null when there is no saved session. */
+export async function readSession(): Promise<Session | null> {
+  let parsed: any
+  try {
+    parsed = JSON.parse(await readFile(sessionPath(), 'utf8'))
+  } catch {
+    return null
+  }
+  if (!parsed || !Array.isArray(parsed.tabs)) return null
+  const tabs = (parsed.tabs as any[])
+    .filter((tab) => typeof tab?.sourcePath === 'string' && tab.sourcePath)
+    .map((tab): SessionTab => ({ sourcePath: tab.sourcePath, view: readView(tab.view) }))
+  const activeIndex = Number.isInteger(parsed.activeIndex) ? Math.min(Math.max(parsed.activeIndex, 0), tabs.length - 1) : 0
+  return { tabs, activeIndex, sidebarVisible: parsed.sidebarVisible !== false }
+}
+
+// Synchronous so the session is on disk before the window (and possibly the app) goes away.
+export function writeSessionSync(session: Session) {
+  writeFileSync(sessionPath(), JSON.stringify(session, null, 2))
+}
+
+/** Recently opened files, newest first; entries that no longer exist are dropped from the stored list. */
+export async function readRecentFiles(): Promise<string[]> {
+  const { recentFiles = [] } = await readSettings()
+  const existing = recentFiles.filter(isFile)
+  if (existing.length !== recentFiles.length) await updateSettings({ recentFiles: existing })
+  return existing
+}
+
+export async function addRecentFile(path: string): Promise<string[]> {
+  const { recentFiles = [] } = await readSettings()
+  const next = [path, ...recentFiles.filter((entry) => entry !== path)].filter(isFile).slice(0, MAX_RECENT_FILES)
+  await updateSettings({ recentFiles: next })
+  return next
+}
+
+export async function clearRecentFiles(): Promise<string[]> {
+  await updateSettings({ recentFiles: [] })
+  return []
+}
@@ -0,0 +1,36 @@
+import { app } from 'electron'
+import { readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+export type Settings = {
+  // object_info.json last loaded; reloaded on startup.
+  nodeDefinitionsPath?: string
+  // extension-node-map.json used to name custom node packs.
+  nodeMapPath?: string
+  // ComfyUI/models folder the model inventory is verified against.
+  modelsDir?: string
+  // Folders kept in the cross-workflow search index.
+  indexFolders?: string[]
+  // File › Open Recent, newest first.
+  recentFiles?: string[]
+}
+
+function settingsPath() {
+  return join(app.getPath('userData'), 'settings.json')
+}
+
+/** Settings persisted across launches; a missing or unreadable file yields the defaults. */
+export async function readSettings(): Promise<Settings> {
+  try {
+    const parsed = JSON.parse(await readFile(settingsPath(), 'utf8'))
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function updateSettings(patch: Partial<Settings>): Promise<Settings> {
+  const next = { ...(await readSettings()), ...patch }
+  await writeFile(settingsPath(), JSON.stringify(next, null, 2))
+  return next
+}
@@ -0,0 +1,104 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+
+export type FileChange = { path: string; kind: 'changed' | 'removed' }
+
+type Snapshot = { mtimeMs: number; size: number } | null
+
+// Editors and ComfyUI write in several steps; report once the file has been quiet this long.
+const SETTLE_MS = 300
+
+async function snapshot(path: string): Promise<Snapshot> {
+  try {
+    const info = await stat(path)
+    return info.isFile() ? { mtimeMs: info.mtimeMs, size: info.size } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reports changes to a set of files. Their folders are watched rather than the files
+ * themselves, since saving by writing a temp file and renaming it over the original would
+ * silently end a watch on the old inode; a file that disappears and comes back is reported
+ * as removed, then changed.
+ */
+export function createFileWatcher(onChange: (change: FileChange) => void) {
+  const snapshots = new Map<string, Snapshot>()
+  const folders = new Map<string, FSWatcher>()
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  const check = async (path: string) => {
+    if (!snapshots.has(path)) return
+    const previous = snapshots.get(path)
+    const next = await snapshot(path)
+    if (!snapshots.has(path)) return
+    snapshots.set(path, next)
+    if (!next) {
+      if (previous) onChange({ path, kind: 'removed' })
+    } else if (!previous || previous.mtimeMs !== next.mtimeMs || previous.size !== next.size) {
+      onChange({ path, kind: 'changed' })
+    }
+  }
+
+  const schedule = (path: string) => {
+    clearTimeout(timers.get(path))
+    timers.set(
+      path,
+      setTimeout(() => {
+        timers.delete(path)
+        check(path)
+      }, SETTLE_MS)
+    )
+  }
+
+  const forget = (path: string) => {
+    snapshots.delete(path)
+    clearTimeout(timers.get(path))
+    timers.delete(path)
+  }
+
+  const setPaths = async (paths: string[]) => {
+    const wanted = new Set(paths)
+    for (const path of Array.from(snapshots.keys())) if (!wanted.has(path)) forget(path)
+    const added = Array.from(wanted).filter((path) => !snapshots.has(path))
+    const states = await Promise.all(added.map(snapshot))
+    added.forEach((path, i) => {
+      if (wanted.has(path) && !snapshots.has(path)) snapshots.set(path, states[i]!)
+    })
+
+    const wantedFolders = new Set(Array.from(snapshots.keys(), (path) => dirname(resolve(path))))
+    for (const [folder, watcher] of folders) {
+      if (wantedFolders.has(folder)) continue
+      watcher.close()
+      folders.delete(folder)
+    }
+    for (const folder of wantedFolders) {
+      if (folders.has(folder)) continue
+      try {
+        const watcher = watch(folder, (_event, filename) => {
+          const changed = filename ? join(folder, filename.toString()) : null
+          for (const path of snapshots.keys()) {
+            if (changed ? resolve(path) === changed : dirname(resolve(path)) === folder) schedule(path)
+          }
+        })
+        watcher.on('error', () => {
+          watcher.close()
+          folders.delete(folder)
+        })
+        folders.set(folder, watcher)
+      } catch {
+        // The folder is gone already; its files stay listed in case it is watched again later.
+      }
+    }
+  }
+
+  const dispose = () => {
+    for (const path of Array.from(snapshots.keys())) forget(path)
+    for (const watcher of folders.values()) watcher.close()
+    folders.clear()
+  }
+
+  return { setPaths, dispose }
+}
@@ -1,7 +1,13 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
 export type WorkflowPayload =
-  | { ok: true; sourcePath: string; workflow: unknown }
+  | { ok: true; sourcePath: string; workflow: unknown; prompt?: string; metadata?: Record<string, string>; warnings?: string[] }
+  | { ok: false; sourcePath?: string; error: string }
+
+export type ReferenceKind = 'node-definitions' | 'node-map'
+
+export type ReferencePayload =
+  | { ok: true; sourcePath: string; data: unknown }
   | { ok: false; sourcePath?: string; error: string }
 
 export type WorkflowCommand =
@@ -10,15 +16,109 @@ export type WorkflowCommand =
   | 'reset-view'
   | 'fit'
   | 'toggle-sidebar'
+  | 'toggle-minimap'
   | 'close-tab'
   | 'next-tab'
   | 'prev-tab'
+  | 'auto-layout'
+  | 'find'
+  | 'compare'
+  | 'toggle-split'
+  | 'export-image'
+  | 'save-png'
+  | 'export-api-prompt'
+  | 'load-node-definitions'
+  | 'load-node-map'
+  | 'dependencies'
+  | 'inventory'
+  | 'open-folder'
+  | 'search-workflows'
+
+export type FileChange = { path: string; kind: 'changed' | 'removed' }
+
+export type SessionTab = { sourcePath: string; view: { offset: [number, number]; scale: number } | null }
+
+export type Session = { tabs: SessionTab[]; activeIndex: number; sidebarVisible: boolean }
+
+export type RenderRequest = { path: string; scale: number; transparent: boolean }
+
+export type RenderResult = { ok: true; data: string; scale: number } | { ok: false; error: string }
+
+export type ExportRequest = { defaultName: string; data: string; encoding: 'base64' | 'utf8' }
+
+export type ExportResult = { ok: true; savedPath: string } | { ok: false; error: string } | null
+
+export type SavePngRequest = { workflow: string; prompt?: string }
+
+export type SavePngResult = { ok: true; savedPath: string } | { ok: false; error: string } | null
+
+export type AssetCheckRequest = { kind: string; name: string; folders: string[] }
+
+export type AssetCheckResult = { kind: string; name: string; present: boolean; path?: string; suggestions: string[] }
+
+export type LibraryEntry = { path: string; name: string; relativePath: string; mtimeMs: number; size: number }
+
+export type WorkflowPreview = {
+  bounds: [number, number, number, number]
+  nodes: Array<[number, number, number, number]>
+  groups: Array<[number, number, number, number]>
+  links: Array<[number, number, number, number]>
+}
+
+export type LibrarySummary =
+  | { path: string; ok: true; nodeCount: number; model: string | null; thumbnail: string | null; preview: WorkflowPreview | null }
+  | { path: string; ok: false; error: string }
+
+export type CatalogStatus = { folders: string[]; files: number; indexing: boolean; error?: string }
+
+export type CatalogHit = { nodeId: number; type: string; title: string; subgraph?: string; field: string; snippet: string }
+
+export type CatalogResult = { path: string; name: string; models: string[]; hits: CatalogHit[] }
 
 const api = {
   openDialog: () => ipcRenderer.invoke('workflow:open-dialog') as Promise<string | null>,
   readFile: (sourcePath: string) =>
     ipcRenderer.invoke('workflow:read-file', sourcePath) as Promise<WorkflowPayload>,
+  watchFiles: (paths: string[]) => ipcRenderer.invoke('workflow:watch', paths) as Promise<void>,
+  addRecentFile: (sourcePath: string) => ipcRenderer.invoke('recent:add', sourcePath) as Promise<void>,
+  restoreSession: () => ipcRenderer.invoke('session:restore') as Promise<Session | null>,
+  // Synchronous because it runs while the window unloads.
+  saveSession: (session: Session) => ipcRenderer.sendSync('session:save', session) as boolean,
   writeClipboardText: (text: string) => ipcRenderer.invoke('clipboard:write-text', text) as Promise<boolean>,
+  saveExport: (request: ExportRequest) => ipcRenderer.invoke('workflow:save-export', request) as Promise<ExportResult>,
+  savePngWithWorkflow: (request: SavePngRequest) => ipcRenderer.invoke('workflow:save-png', request) as Promise<SavePngResult>,
+  openReferenceDialog: (kind: ReferenceKind) => ipcRenderer.invoke('reference:open-dialog', kind) as Promise<string | null>,
+  readReferenceFile: (kind: ReferenceKind, sourcePath: string) =>
+    ipcRenderer.invoke('reference:read-file', kind, sourcePath) as Promise<ReferencePayload>,
+  restoreReferenceFile: (kind: ReferenceKind) =>
+    ipcRenderer.invoke('reference:restore', kind) as Promise<ReferencePayload | null>,
+  chooseModelsDir: () => ipcRenderer.invoke('assets:choose-models-dir') as Promise<string | null>,
+  getModelsDir: () => ipcRenderer.invoke('assets:get-models-dir') as Promise<string | null>,
+  verifyAssets: (modelsDir: string, requests: AssetCheckRequest[]) =>
+    ipcRenderer.invoke('assets:verify', modelsDir, requests) as Promise<AssetCheckResult[]>,
+  chooseLibraryFolder: () => ipcRenderer.invoke('library:choose-folder') as Promise<string | null>,
+  scanLibrary: (root: string) => ipcRenderer.invoke('library:scan', root) as Promise<LibraryEntry[]>,
+  summarizeLibraryFiles: (paths: string[]) => ipcRenderer.invoke('library:summarize', paths) as Promise<LibrarySummary[]>,
+  getCatalogStatus: () => ipcRenderer.invoke('catalog:status') as Promise<CatalogStatus>,
+  addCatalogFolder: () => ipcRenderer.invoke('catalog:add-folder') as Promise<CatalogStatus | null>,
+  removeCatalogFolder: (folder: string) => ipcRenderer.invoke('catalog:remove-folder', folder) as Promise<CatalogStatus>,
+  queryCatalog: (query: string) => ipcRenderer.invoke('catalog:query', query) as Promise<CatalogResult[]>,
+  onCatalogChanged: (handler: (status: CatalogStatus) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, status: CatalogStatus) => handler(status)
+    ipcRenderer.on('catalog:changed', listener)
+    return () => ipcRenderer.off('catalog:changed', listener)
+  },
+  onFileChanged: (handler: (change: FileChange) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, change: FileChange) => handler(change)
+    ipcRenderer.on('workflow:file-changed', listener)
+    return () => ipcRenderer.off('workflow:file-changed', listener)
+  },
+  sendRenderResult: (result: RenderResult) => ipcRenderer.send('cli:render-result', result),
+  onRenderRequest: (handler: (request: RenderRequest) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, request: RenderRequest) => handler(request)
+    ipcRenderer.on('cli:render', listener)
+    return () => ipcRenderer.off('cli:render', listener)
+  },
   onOpenPath: (handler: (path: string) => void) => {
     const listener = (_event: Electron.IpcRendererEvent, path: string) => handler(path)
     ipcRenderer.on('workflow:open-path', listener)
@@ -0,0 +1,108 @@
+export type NodeSlotDefinition = { name: string; type: string; tooltip?: string }
+
+export type NodeWidgetDefinition = {
+  name: string
+  type: string
+  // Occupies a `widgets_values` slot but is a frontend control, not a backend input.
+  uiOnly: boolean
+}
+
+export type NodeDefinition = {
+  type: string
+  displayName: string
+  category: string
+  description: string
+  outputNode: boolean
+  // `nodes`, `comfy_extras.…` for core nodes; `custom_nodes.<pack>` for custom ones.
+  pythonModule: string
+  // Inputs drawn as sockets (links only).
+  inputs: NodeSlotDefinition[]
+  // Widgets in the order their values appear in `widgets_values`.
+  widgets: NodeWidgetDefinition[]
+  outputs: Array<NodeSlotDefinition & { isList: boolean }>
+}
+
+const WIDGET_TYPES = new Set(['INT', 'FLOAT', 'STRING', 'BOOLEAN', 'COMBO'])
+const UPLOAD_OPTIONS = ['image_upload', 'animated_image_upload', 'video_upload', 'audio_upload']
+// Frontends before `control_after_generate` was declared added the control by input name.
+const LEGACY_SEED_NAMES = new Set(['seed', 'noise_seed'])
+
+function inputType(spec: unknown[]) {
+  const type = spec[0]
+  if (Array.isArray(type)) return 'COMBO'
+  return typeof type === 'string' ? type : '*'
+}
+
+function orderedInputNames(def: any, section: 'required' | 'optional') {
+  const names = Object.keys(def?.input?.[section] ?? {})
+  const order: unknown = def?.input_order?.[section]
+  if (!Array.isArray(order)) return names
+  const known = order.filter((name): name is string => typeof name === 'string' && names.includes(name))
+  return [...known, ...names.filter((name) => !known.includes(name))]
+}
+
+function readDefinition(type: string, def: any): NodeDefinition {
+  const inputs: NodeSlotDefinition[] = []
+  const widgets: NodeWidgetDefinition[] = []
+
+  for (const section of ['required', 'optional'] as const) {
+    for (const name of orderedInputNames(def, section)) {
+      const spec: unknown[] = Array.isArray(def.input[section][name]) ? def.input[section][name] : []
+      const options: any = spec[1] && typeof spec[1] === 'object' ? spec[1] : {}
+      const slotType = inputType(spec)
+      const tooltip = typeof options.tooltip === 'string' ? { tooltip: options.tooltip } : {}
+      if (!WIDGET_TYPES.has(slotType) || options.forceInput) {
+        inputs.push({ name, type: slotType, ...tooltip })
+        continue
+      }
+
+      widgets.push({ name, type: slotType, uiOnly: false })
+      if (options.control_after_generate || (slotType === 'INT' && LEGACY_SEED_NAMES.has(name))) {
+        widgets.push({ name: 'control_after_generate', type: 'COMBO', uiOnly: true })
+      }
+      if (UPLOAD_OPTIONS.some((key) => options[key])) widgets.push({ name: 'upload', type: 'BUTTON', uiOnly: true })
+    }
+  }
+
+  const outputTypes: unknown[] = Array.isArray(def.output) ? def.output : []
+  const outputNames: unknown[] = Array.isArray(def.output_name) ? def.output_name : []
+  const outputLists: unknown[] = Array.isArray(def.output_is_list) ? def.output_is_list : []
+  const outputTooltips: unknown[] = Array.isArray(def.output_tooltips) ? def.output_tooltips : []
+  const outputs = outputTypes.map((rawType, i) => {
+    const type = Array.isArray(rawType) ? 'COMBO' : String(rawType)
+    const tooltip = outputTooltips[i]
+    return {
+      name: typeof outputNames[i] === 'string' ? (outputNames[i] as string) : type,
+      type,
+      isList: outputLists[i] === true,
+      ...(typeof tooltip === 'string' ? { tooltip } : {})
+    }
+  })
+
+  return {
+    type,
+    displayName: typeof def.display_name === 'string' && def.display_name ? def.display_name : type,
+    category: typeof def.category === 'string' ? def.category : '',
+    description: typeof def.description === 'string' ? def.description : '',
+    outputNode: def.output_node === true,
+    pythonModule: typeof def.python_module === 'string' ? def.python_module : '',
+    inputs,
+    widgets,
+    outputs
+  }
+}
+
+/**
+ * Reads the `/object_info` dump of a ComfyUI install into per-type definitions, reproducing
+ * how the frontend turns input specs into sockets and widgets (including the extra
+ * `control_after_generate` and upload widgets it inserts). Malformed entries are skipped.
+ */
+export function parseObjectInfo(raw: unknown): Map<string, NodeDefinition> {
+  const definitions = new Map<string, NodeDefinition>()
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return definitions
+  for (const [type, def] of Object.entries(raw as Record<string, any>)) {
+    if (!def || typeof def !== 'object' || !def.input || typeof def.input !== 'object') continue
+    definitions.set(type, readDefinition(type, def))
+  }
+  return definitions
+}
@@ -0,0 +1,163 @@
+import type { NodeDefinition } from './definitions'
+import type { SubgraphDefinition } from './subgraph'
+
+export type NodePack = { name: string; repo: string }
+
+export type NodeMap = {
+  packByType: Map<string, NodePack>
+  patterns: Array<{ pattern: RegExp; pack: NodePack }>
+}
+
+export type DependencyStatus = 'core' | 'custom' | 'unknown'
+
+export type DependencySource = 'object_info' | 'node map' | 'workflow' | 'bundled'
+
+export type NodeDependency = {
+  type: string
+  status: DependencyStatus
+  pack: NodePack | null
+  source: DependencySource | null
+  // Instances on the top level plus inside each subgraph definition (counted once per definition).
+  count: number
+}
+
+export type DependencyOptions = {
+  subgraphs?: Map<string, SubgraphDefinition>
+  definitions?: Map<string, NodeDefinition>
+  nodeMap?: NodeMap | null
+}
+
+const CORE_REPO = 'https://github.com/comfyanonymous/ComfyUI'
+const CORE_MODULE_PATTERN = /^(nodes|comfy_extras|comfy_api_nodes)(\.|$)/
+const CUSTOM_MODULE_PREFIX = 'custom_nodes.'
+
+// Core (and frontend-only) node types known without any mapping; not exhaustive.
+const BUNDLED_CORE_TYPES = new Set([
+  'Reroute', 'Note', 'MarkdownNote', 'PrimitiveNode',
+  'KSampler', 'KSamplerAdvanced', 'SamplerCustom', 'SamplerCustomAdvanced', 'KSamplerSelect', 'BasicScheduler',
+  'KarrasScheduler', 'ExponentialScheduler', 'PolyexponentialScheduler', 'SDTurboScheduler', 'AlignYourStepsScheduler',
+  'BetaSamplingScheduler', 'SplitSigmas', 'RandomNoise', 'DisableNoise', 'CFGGuider', 'BasicGuider', 'DualCFGGuider',
+  'CheckpointLoaderSimple', 'CheckpointLoader', 'ImageOnlyCheckpointLoader', 'unCLIPCheckpointLoader', 'CheckpointSave',
+  'VAELoader', 'LoraLoader', 'LoraLoaderModelOnly', 'CLIPLoader', 'DualCLIPLoader', 'TripleCLIPLoader', 'UNETLoader',
+  'HypernetworkLoader', 'UpscaleModelLoader', 'StyleModelLoader', 'CLIPVisionLoader', 'GLIGENLoader',
+  'ControlNetLoader', 'DiffControlNetLoader', 'ControlNetApply', 'ControlNetApplyAdvanced', 'SetUnionControlNetType',
+  'CLIPTextEncode', 'CLIPTextEncodeSDXL', 'CLIPTextEncodeSDXLRefiner', 'CLIPTextEncodeFlux', 'CLIPSetLastLayer',
+  'CLIPVisionEncode', 'StyleModelApply', 'unCLIPConditioning', 'GLIGENTextBoxApply', 'FluxGuidance',
+  'ConditioningCombine', 'ConditioningAverage', 'ConditioningConcat', 'ConditioningSetArea',
+  'ConditioningSetAreaPercentage', 'ConditioningSetAreaStrength', 'ConditioningSetMask', 'ConditioningZeroOut',
+  'ConditioningSetTimestepRange', 'InpaintModelConditioning',
+  'EmptyLatentImage', 'EmptySD3LatentImage', 'EmptyHunyuanLatentVideo', 'EmptyLTXVLatentVideo', 'EmptyMochiLatentVideo',
+  'LatentUpscale', 'LatentUpscaleBy', 'LatentComposite', 'LatentBlend', 'LatentFromBatch', 'RepeatLatentBatch',
+  'RebatchLatents', 'LatentRotate', 'LatentFlip', 'LatentCrop', 'LatentAdd', 'LatentSubtract', 'LatentMultiply',
+  'LatentInterpolate', 'LatentBatch', 'SetLatentNoiseMask', 'SaveLatent', 'LoadLatent',
+  'VAEDecode', 'VAEEncode', 'VAEEncodeForInpaint', 'VAEDecodeTiled', 'VAEEncodeTiled',
+  'LoadImage', 'LoadImageMask', 'LoadImageOutput', 'SaveImage', 'PreviewImage', 'SaveAnimatedWEBP', 'SaveAnimatedPNG',
+  'SaveWEBM', 'SaveVideo', 'LoadVideo', 'CreateVideo', 'GetVideoComponents',
+  'ImageScale', 'ImageScaleBy', 'ImageScaleToTotalPixels', 'ImageUpscaleWithModel', 'ImageInvert', 'ImageBatch',
+  'ImagePadForOutpaint', 'ImageCrop', 'ImageBlend', 'ImageBlur', 'ImageSharpen', 'ImageQuantize', 'ImageStitch',
+  'ImageFromBatch', 'RebatchImages', 'ImageCompositeMasked', 'EmptyImage', 'PorterDuffImageComposite',
+  'SplitImageWithAlpha', 'JoinImageWithAlpha', 'Canny', 'Morphology',
+  'MaskToImage', 'ImageToMask', 'SolidMask', 'InvertMask', 'CropMask', 'GrowMask', 'FeatherMask', 'ThresholdMask',
+  'MaskComposite',
+  'FreeU', 'FreeU_V2', 'PerpNeg', 'SelfAttentionGuidance', 'PatchModelAddDownscale', 'RescaleCFG',
+  'ModelSamplingDiscrete', 'ModelSamplingSD3', 'ModelSamplingFlux', 'ModelMergeSimple', 'ModelMergeBlocks',
+  'CLIPMergeSimple', 'VideoLinearCFGGuidance', 'SVD_img2vid_Conditioning', 'WanImageToVideo',
+  'PrimitiveInt', 'PrimitiveFloat', 'PrimitiveString', 'PrimitiveStringMultiline', 'PrimitiveBoolean'
+])
+
+function packFromUrl(url: string, meta: any): NodePack {
+  const title = typeof meta?.title_aux === 'string' && meta.title_aux ? meta.title_aux : null
+  return { name: title ?? url.replace(/\/+$/, '').split('/').at(-1) ?? url, repo: url }
+}
+
+/**
+ * Reads ComfyUI-Manager's `extension-node-map.json` (`{ repoUrl: [[nodeTypes…], { title_aux,
+ * nodename_pattern }] }`). When several packs claim a type, the first one listed wins.
+ */
+export function parseNodeMap(raw: unknown): NodeMap {
+  const map: NodeMap = { packByType: new Map(), patterns: [] }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return map
+  for (const [url, entry] of Object.entries(raw as Record<string, unknown>)) {
+    if (!Array.isArray(entry) || !Array.isArray(entry[0])) continue
+    const pack = packFromUrl(url, entry[1])
+    for (const type of entry[0]) {
+      if (typeof type === 'string' && !map.packByType.has(type)) map.packByType.set(type, pack)
+    }
+    const pattern = entry[1]?.nodename_pattern
+    if (typeof pattern !== 'string' || !pattern) continue
+    try {
+      map.patterns.push({ pattern: new RegExp(pattern), pack })
+    } catch {
+      // Patterns are written for Python's `re`; skip the ones JavaScript cannot compile.
+    }
+  }
+  return map
+}
+
+function lookupPack(type: string, nodeMap: NodeMap | null | undefined) {
+  if (!nodeMap) return null
+  return nodeMap.packByType.get(type) ?? nodeMap.patterns.find((entry) => entry.pattern.test(type))?.pack ?? null
+}
+
+// The ComfyUI frontend records where each node came from in `properties.cnr_id` / `aux_id`.
+function packFromProperties(properties: any): NodePack | 'core' | null {
+  const cnrId = typeof properties?.cnr_id === 'string' ? properties.cnr_id : ''
+  const auxId = typeof properties?.aux_id === 'string' ? properties.aux_id : ''
+  if (cnrId === 'comfy-core') return 'core'
+  if (auxId) return { name: auxId.split('/').at(-1) ?? auxId, repo: `https://github.com/${auxId}` }
+  if (cnrId) return { name: cnrId, repo: `https://registry.comfy.org/nodes/${cnrId}` }
+  return null
+}
+
+function classify(type: string, sample: any, { definitions, nodeMap }: DependencyOptions) {
+  const core = (source: DependencySource) => ({ status: 'core' as const, pack: null, source })
+  const custom = (pack: NodePack, source: DependencySource) => ({ status: 'custom' as const, pack, source })
+
+  const mapped = lookupPack(type, nodeMap)
+  const module = definitions?.get(type)?.pythonModule ?? ''
+  if (CORE_MODULE_PATTERN.test(module)) return core('object_info')
+  if (module.startsWith(CUSTOM_MODULE_PREFIX)) {
+    const folder = module.slice(CUSTOM_MODULE_PREFIX.length).split('.')[0]!
+    return custom(mapped && mapped.repo !== CORE_REPO ? mapped : { name: folder, repo: '' }, 'object_info')
+  }
+  if (mapped) return mapped.repo === CORE_REPO ? core('node map') : custom(mapped, 'node map')
+
+  const recorded = packFromProperties(sample?.properties)
+  if (recorded === 'core') return core('workflow')
+  if (recorded) return custom(recorded, 'workflow')
+  if (BUNDLED_CORE_TYPES.has(type)) return core('bundled')
+  return { status: 'unknown' as const, pack: null, source: null }
+}
+
+/**
+ * Lists every node type used by the workflow, subgraph contents included, and sorts each
+ * into core / custom pack / unknown using (in order) object_info, the node map, what the
+ * workflow recorded, and the bundled core list. Subgraph instances are not dependencies.
+ */
+export function collectDependencies(workflow: any, options: DependencyOptions = {}): NodeDependency[] {
+  const subgraphs = options.subgraphs ?? new Map<string, SubgraphDefinition>()
+  const counts = new Map<string, { count: number; sample: any }>()
+  const visited = new Set<string>()
+
+  const visit = (nodes: unknown) => {
+    for (const node of Array.isArray(nodes) ? (nodes as any[]) : []) {
+      const type = typeof node?.type === 'string' ? node.type : ''
+      if (!type) continue
+      const subgraph = subgraphs.get(type)
+      if (subgraph) {
+        if (visited.has(subgraph.id)) continue
+        visited.add(subgraph.id)
+        visit(subgraph.raw?.nodes)
+        continue
+      }
+      const entry = counts.get(type) ?? { count: 0, sample: node }
+      entry.count++
+      counts.set(type, entry)
+    }
+  }
+  visit(workflow?.nodes)
+
+  return Array.from(counts, ([type, { count, sample }]) => ({ type, count, ...classify(type, sample, options) })).sort(
+    (a, b) => a.type.localeCompare(b.type)
+  )
+}
@@ -0,0 +1,148 @@
+export type DiffChange = { field: string; before: unknown; after: unknown }
+
+export type NodeDiff = {
+  kind: 'added' | 'removed' | 'modified'
+  // Node in the workflow being compared against; null for added nodes.
+  baseNode: any | null
+  // Node in the workflow on screen; null for removed nodes.
+  node: any | null
+  changes: DiffChange[]
+}
+
+export type WorkflowDiff = { entries: NodeDiff[]; unchanged: number }
+
+export type DiffOptions = { widgetLabels?: (node: any) => string[] }
+
+// Nodes whose ids differ are still paired when the same type sits within this distance.
+const POSITION_MATCH_DISTANCE = 80
+
+function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true
+  try {
+    return JSON.stringify(a) === JSON.stringify(b)
+  } catch {
+    return false
+  }
+}
+
+function distance(a: any, b: any) {
+  const pa = a?.pos
+  const pb = b?.pos
+  if (!pa || !pb || typeof pa[0] !== 'number' || typeof pb[0] !== 'number') return Infinity
+  return Math.hypot(pa[0] - pb[0], pa[1] - pb[1])
+}
+
+function matchNodes(baseNodes: any[], nodes: any[]) {
+  const pairs = new Map<any, any>()
+  const unmatchedBase = new Set(baseNodes)
+  const baseById = new Map(baseNodes.map((node) => [node.id, node]))
+
+  for (const node of nodes) {
+    const base = baseById.get(node.id)
+    if (base && base.type === node.type && unmatchedBase.has(base)) {
+      pairs.set(node, base)
+      unmatchedBase.delete(base)
+    }
+  }
+
+  for (const node of nodes) {
+    if (pairs.has(node)) continue
+    let best: any = null
+    let bestDistance = POSITION_MATCH_DISTANCE
+    for (const base of unmatchedBase) {
+      if (base.type !== node.type) continue
+      const d = distance(base, node)
+      if (d <= bestDistance) {
+        best = base
+        bestDistance = d
+      }
+    }
+    if (best) {
+      pairs.set(node, best)
+      unmatchedBase.delete(best)
+    }
+  }
+
+  return { pairs, removed: baseNodes.filter((node) => unmatchedBase.has(node)) }
+}
+
+// Input name (or index) → "where it comes from", per target node id.
+function inputSources(workflow: any) {
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const sources = new Map<number, Map<string, { originId: number; originSlot: number }>>()
+  for (const link of Array.isArray(workflow?.links) ? workflow.links : []) {
+    if (!Array.isArray(link)) continue
+    const [, originId, originSlot, targetId, targetSlot] = link
+    const input = byId.get(targetId)?.inputs?.[targetSlot]
+    const name = String(input?.name ?? targetSlot)
+    if (!sources.has(targetId)) sources.set(targetId, new Map())
+    sources.get(targetId)!.set(name, { originId, originSlot })
+  }
+  return { sources, byId }
+}
+
+function describeSource(source: { originId: number; originSlot: number } | undefined, byId: Map<number, any>) {
+  if (!source) return null
+  const origin = byId.get(source.originId)
+  const output = origin?.outputs?.[source.originSlot]?.name ?? source.originSlot
+  return `#${source.originId} ${origin?.title ?? origin?.type ?? '?'}.${output}`
+}
+
+function compareFields(base: any, node: any, labels: string[]) {
+  const changes: DiffChange[] = []
+  if ((base.title ?? null) !== (node.title ?? null)) changes.push({ field: 'title', before: base.title, after: node.title })
+  if ((base.mode ?? 0) !== (node.mode ?? 0)) changes.push({ field: 'mode', before: base.mode ?? 0, after: node.mode ?? 0 })
+
+  const baseValues: unknown[] = Array.isArray(base.widgets_values) ? base.widgets_values : []
+  const values: unknown[] = Array.isArray(node.widgets_values) ? node.widgets_values : []
+  for (let i = 0; i < Math.max(baseValues.length, values.length); i++) {
+    if (!sameValue(baseValues[i], values[i])) changes.push({ field: labels[i] ?? `widgets_values[${i}]`, before: baseValues[i], after: values[i] })
+  }
+
+  const baseProps = base.properties && typeof base.properties === 'object' ? base.properties : {}
+  const props = node.properties && typeof node.properties === 'object' ? node.properties : {}
+  for (const key of new Set([...Object.keys(baseProps), ...Object.keys(props)])) {
+    if (!sameValue(baseProps[key], props[key])) changes.push({ field: `properties.${key}`, before: baseProps[key], after: props[key] })
+  }
+  return changes
+}
+
+/**
+ * Structural diff of two normalized workflows: nodes are paired by id (same type), then by
+ * type and position; paired nodes are compared field by field and input by input.
+ */
+export function diffWorkflows(base: any, current: any, { widgetLabels }: DiffOptions = {}): WorkflowDiff {
+  const baseNodes: any[] = Array.isArray(base?.nodes) ? base.nodes : []
+  const nodes: any[] = Array.isArray(current?.nodes) ? current.nodes : []
+  const { pairs, removed } = matchNodes(baseNodes, nodes)
+  const baseIdOf = new Map<number, number>(Array.from(pairs, ([node, baseNode]) => [node.id, baseNode.id]))
+  const baseLinks = inputSources(base)
+  const links = inputSources(current)
+
+  const entries: NodeDiff[] = []
+  let unchanged = 0
+  for (const node of nodes) {
+    const baseNode = pairs.get(node)
+    if (!baseNode) {
+      entries.push({ kind: 'added', baseNode: null, node, changes: [] })
+      continue
+    }
+
+    const changes = compareFields(baseNode, node, widgetLabels?.(node) ?? [])
+    const before = baseLinks.sources.get(baseNode.id) ?? new Map()
+    const after = links.sources.get(node.id) ?? new Map()
+    for (const name of new Set([...before.keys(), ...after.keys()])) {
+      const a = before.get(name)
+      const b = after.get(name)
+      const rewired = !a || !b || a.originSlot !== b.originSlot || baseIdOf.get(b.originId) !== a.originId
+      if (rewired) changes.push({ field: `input ${name}`, before: describeSource(a, baseLinks.byId), after: describeSource(b, links.byId) })
+    }
+
+    if (changes.length) entries.push({ kind: 'modified', baseNode, node, changes })
+    else unchanged++
+  }
+  for (const baseNode of removed) entries.push({ kind: 'removed', baseNode, node: null, changes: [] })
+
+  return { entries, unchanged }
+}
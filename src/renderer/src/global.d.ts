@@ -7,9 +7,58 @@ declare global {
     | 'reset-view'
     | 'fit'
     | 'toggle-sidebar'
+    | 'toggle-minimap'
     | 'close-tab'
     | 'next-tab'
     | 'prev-tab'
+    | 'auto-layout'
+    | 'find'
+    | 'compare'
+    | 'toggle-split'
+    | 'export-image'
+    | 'save-png'
+    | 'export-api-prompt'
+    | 'load-node-definitions'
+    | 'load-node-map'
+    | 'dependencies'
+    | 'inventory'
+    | 'open-folder'
+    | 'search-workflows'
+
+  type FileChange = { path: string; kind: 'changed' | 'removed' }
+
+  type SessionTab = { sourcePath: string; view: { offset: [number, number]; scale: number } | null }
+
+  type Session = { tabs: SessionTab[]; activeIndex: number; sidebarVisible: boolean }
+
+  type RenderRequest = { path: string; scale: number; transparent: boolean }
+
+  type ReferenceKind = 'node-definitions' | 'node-map'
+
+  type ReferencePayload =
+    | { ok: true; sourcePath: string; data: unknown }
+    | { ok: false; sourcePath?: string; error: string }
+
+  type AssetCheckResult = { kind: string; name: string; present: boolean; path?: string; suggestions: string[] }
+
+  type LibraryEntry = { path: string; name: string; relativePath: string; mtimeMs: number; size: number }
+
+  type WorkflowPreview = {
+    bounds: [number, number, number, number]
+    nodes: Array<[number, number, number, number]>
+    groups: Array<[number, number, number, number]>
+    links: Array<[number, number, number, number]>
+  }
+
+  type LibrarySummary =
+    | { path: string; ok: true; nodeCount: number; model: string | null; thumbnail: string | null; preview: WorkflowPreview | null }
+    | { path: string; ok: false; error: string }
+
+  type CatalogStatus = { folders: string[]; files: number; indexing: boolean; error?: string }
+
+  type CatalogHit = { nodeId: number; type: string; title: string; subgraph?: string; field: string; snippet: string }
+
+  type CatalogResult = { path: string; name: string; models: string[]; hits: CatalogHit[] }
 
   interface Window {
     workflowViewer: {
@@ -17,9 +66,42 @@ declare global {
       readFile: (
         sourcePath: string
       ) => Promise<
-        | { ok: true; sourcePath: string; workflow: unknown }
+        | { ok: true; sourcePath: string; workflow: unknown; prompt?: string; metadata?: Record<string, string>; warnings?: string[] }
         | { ok: false; sourcePath?: string; error: string }
       >
+      watchFiles: (paths: string[]) => Promise<void>
+      addRecentFile: (sourcePath: string) => Promise<void>
+      restoreSession: () => Promise<Session | null>
+      saveSession: (session: Session) => boolean
+      saveExport: (request: {
+        defaultName: string
+        data: string
+        encoding: 'base64' | 'utf8'
+      }) => Promise<{ ok: true; savedPath: string } | { ok: false; error: string } | null>
+      savePngWithWorkflow: (request: {
+        workflow: string
+        prompt?: string
+      }) => Promise<{ ok: true; savedPath: string } | { ok: false; error: string } | null>
+      openReferenceDialog: (kind: ReferenceKind) => Promise<string | null>
+      readReferenceFile: (kind: ReferenceKind, sourcePath: string) => Promise<ReferencePayload>
+      restoreReferenceFile: (kind: ReferenceKind) => Promise<ReferencePayload | null>
+      chooseModelsDir: () => Promise<string | null>
+      getModelsDir: () => Promise<string | null>
+      verifyAssets: (
+        modelsDir: string,
+        requests: Array<{ kind: string; name: string; folders: string[] }>
+      ) => Promise<AssetCheckResult[]>
+      chooseLibraryFolder: () => Promise<string | null>
+      scanLibrary: (root: string) => Promise<LibraryEntry[]>
+      summarizeLibraryFiles: (paths: string[]) => Promise<LibrarySummary[]>
+      getCatalogStatus: () => Promise<CatalogStatus>
+      addCatalogFolder: () => Promise<CatalogStatus | null>
+      removeCatalogFolder: (folder: string) => Promise<CatalogStatus>
+      queryCatalog: (query: string) => Promise<CatalogResult[]>
+      onCatalogChanged: (handler: (status: CatalogStatus) => void) => () => void
+      onFileChanged: (handler: (change: FileChange) => void) => () => void
+      sendRenderResult: (result: { ok: true; data: string; scale: number } | { ok: false; error: string }) => void
+      onRenderRequest: (handler: (request: RenderRequest) => void) => () => void
       onOpenPath: (handler: (path: string) => void) => () => void
       onCommand: (handler: (command: WorkflowCommand) => void) => () => void
     }
@@ -0,0 +1,197 @@
+import type { SubgraphDefinition } from './subgraph'
+
+export type AssetKind =
+  | 'checkpoint'
+  | 'diffusion_model'
+  | 'lora'
+  | 'vae'
+  | 'text_encoder'
+  | 'clip_vision'
+  | 'controlnet'
+  | 'upscaler'
+  | 'style_model'
+  | 'gligen'
+  | 'hypernetwork'
+  | 'embedding'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'model'
+
+export type AssetUse = {
+  nodeId: number
+  title: string
+  type: string
+  field: string
+  // Inside a subgraph definition rather than on the top level.
+  nested: boolean
+}
+
+export type AssetReference = { kind: AssetKind; name: string; uses: AssetUse[] }
+
+export type InventoryOptions = {
+  subgraphs?: Map<string, SubgraphDefinition>
+  widgetLabels?: (node: any) => string[]
+}
+
+export const ASSET_KIND_LABELS: Record<AssetKind, string> = {
+  checkpoint: 'Checkpoints',
+  diffusion_model: 'Diffusion models',
+  lora: 'LoRAs',
+  vae: 'VAEs',
+  text_encoder: 'Text encoders',
+  clip_vision: 'CLIP vision',
+  controlnet: 'ControlNets',
+  upscaler: 'Upscalers',
+  style_model: 'Style models',
+  gligen: 'GLIGEN',
+  hypernetwork: 'Hypernetworks',
+  embedding: 'Embeddings',
+  image: 'Input images',
+  video: 'Input videos',
+  audio: 'Input audio',
+  model: 'Other models'
+}
+
+/** Folders under `ComfyUI/models` searched for each kind; `../input` holds uploaded media. */
+export const ASSET_KIND_FOLDERS: Record<AssetKind, string[]> = {
+  checkpoint: ['checkpoints'],
+  diffusion_model: ['diffusion_models', 'unet'],
+  lora: ['loras'],
+  vae: ['vae'],
+  text_encoder: ['text_encoders', 'clip'],
+  clip_vision: ['clip_vision'],
+  controlnet: ['controlnet'],
+  upscaler: ['upscale_models'],
+  style_model: ['style_models'],
+  gligen: ['gligen'],
+  hypernetwork: ['hypernetworks'],
+  embedding: ['embeddings'],
+  image: ['../input'],
+  video: ['../input'],
+  audio: ['../input'],
+  model: ['.']
+}
+
+// Widget names used by core loaders (and most custom ones that copy them).
+const FIELD_KINDS: Record<string, AssetKind> = {
+  ckpt_name: 'checkpoint',
+  unet_name: 'diffusion_model',
+  lora_name: 'lora',
+  vae_name: 'vae',
+  clip_name: 'text_encoder',
+  clip_name1: 'text_encoder',
+  clip_name2: 'text_encoder',
+  clip_name3: 'text_encoder',
+  control_net_name: 'controlnet',
+  style_model_name: 'style_model',
+  gligen_name: 'gligen',
+  hypernetwork_name: 'hypernetwork',
+  image: 'image',
+  video: 'video',
+  audio: 'audio'
+}
+
+// Node types whose generic widget names mean a specific kind.
+const TYPE_FIELD_KINDS: Record<string, Record<string, AssetKind>> = {
+  CLIPVisionLoader: { clip_name: 'clip_vision' },
+  UpscaleModelLoader: { model_name: 'upscaler' }
+}
+
+const MODEL_FILE_PATTERN = /\.(safetensors|sft|ckpt|pt|pth|bin|gguf|onnx)$/i
+const MEDIA_FILE_PATTERNS: Array<[RegExp, AssetKind]> = [
+  [/\.(png|jpe?g|webp|gif|bmp|tiff?)$/i, 'image'],
+  [/\.(mp4|webm|mov|mkv|avi)$/i, 'video'],
+  [/\.(wav|mp3|flac|ogg|m4a)$/i, 'audio']
+]
+const EMBEDDING_PATTERN = /embedding:([\w.\-/\\]+)/gi
+const MAX_VALUE_DEPTH = 3
+
+// Custom loaders reuse generic names (`model_name`, `lora_01`); guess from the field, then the node type.
+function guessModelKind(field: string, type: string): AssetKind {
+  const hint = `${field} ${type}`.toLowerCase()
+  if (hint.includes('lora')) return 'lora'
+  if (hint.includes('vae')) return 'vae'
+  if (hint.includes('controlnet') || hint.includes('control_net')) return 'controlnet'
+  if (hint.includes('upscale')) return 'upscaler'
+  if (hint.includes('clip_vision') || hint.includes('clipvision')) return 'clip_vision'
+  if (hint.includes('clip') || hint.includes('t5') || hint.includes('text_encoder')) return 'text_encoder'
+  if (hint.includes('unet') || hint.includes('diffusion')) return 'diffusion_model'
+  if (hint.includes('ckpt') || hint.includes('checkpoint')) return 'checkpoint'
+  return 'model'
+}
+
+function kindOf(field: string, type: string, value: string): AssetKind | null {
+  const known = TYPE_FIELD_KINDS[type]?.[field] ?? FIELD_KINDS[field]
+  if (known === 'image' || known === 'video' || known === 'audio') {
+    // `image` is also the name of plain IMAGE inputs and of non-file combos.
+    return MEDIA_FILE_PATTERNS.some(([pattern]) => pattern.test(value.replace(/ \[\w+\]$/, ''))) ? known : null
+  }
+  if (known) return known
+  if (value.length > 255 || value.includes('\n')) return null
+  if (MODEL_FILE_PATTERN.test(value)) return guessModelKind(field, type)
+  // Without a known field name, prose like "a photo of cat.jpg" must not count as a file.
+  if (/\s/.test(value)) return null
+  return MEDIA_FILE_PATTERNS.find(([pattern]) => pattern.test(value))?.[1] ?? null
+}
+
+// Values of custom nodes can be nested objects (e.g. `{ lora: 'x.safetensors', on: true }`).
+function visitValue(value: unknown, field: string, depth: number, emit: (field: string, value: string) => void) {
+  if (typeof value === 'string') emit(field, value)
+  else if (depth >= MAX_VALUE_DEPTH || !value || typeof value !== 'object') return
+  else if (Array.isArray(value)) value.forEach((item) => visitValue(item, field, depth + 1, emit))
+  else for (const [key, item] of Object.entries(value)) visitValue(item, key, depth + 1, emit)
+}
+
+/**
+ * Lists the model files and input media a workflow refers to, from widget values on every
+ * level (subgraph definitions included) and `embedding:` mentions in prompt text. Each file
+ * appears once per kind with all the nodes that use it.
+ */
+export function collectAssets(workflow: any, { subgraphs = new Map(), widgetLabels }: InventoryOptions = {}): AssetReference[] {
+  const assets = new Map<string, AssetReference>()
+  const visited = new Set<string>()
+
+  const add = (kind: AssetKind, rawName: string, use: AssetUse) => {
+    // LoadImage stores annotated names such as `photo.png [input]`.
+    const name = rawName.replace(/ \[(input|output|temp)\]$/, '').trim()
+    if (!name) return
+    const key = `${kind}\u0000${name}`
+    const asset = assets.get(key) ?? { kind, name, uses: [] }
+    if (!asset.uses.some((item) => item.nodeId === use.nodeId && item.nested === use.nested && item.field === use.field)) {
+      asset.uses.push(use)
+    }
+    assets.set(key, asset)
+  }
+
+  const visit = (nodes: unknown, nested: boolean) => {
+    for (const node of Array.isArray(nodes) ? (nodes as any[]) : []) {
+      const type = typeof node?.type === 'string' ? node.type : ''
+      const subgraph = subgraphs.get(type)
+      if (subgraph) {
+        if (!visited.has(subgraph.id)) {
+          visited.add(subgraph.id)
+          visit(subgraph.raw?.nodes, true)
+        }
+        continue
+      }
+
+      const base = { nodeId: Number(node?.id), title: String(node?.title ?? type), type, nested }
+      const emit = (field: string, value: string) => {
+        const kind = kindOf(field, type, value)
+        if (kind) add(kind, value, { ...base, field })
+        for (const match of value.matchAll(EMBEDDING_PATTERN)) add('embedding', match[1]!, { ...base, field })
+      }
+      const values = node?.widgets_values
+      if (Array.isArray(values)) {
+        const labels = widgetLabels?.(node) ?? []
+        values.forEach((value, i) => visitValue(value, labels[i] ?? `w${i}`, 0, emit))
+      } else if (values && typeof values === 'object') {
+        visitValue(values, '', 0, emit)
+      }
+    }
+  }
+  visit(workflow?.nodes, false)
+
+  return Array.from(assets.values()).sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name))
+}
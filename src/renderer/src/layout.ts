@@ -0,0 +1,307 @@
+export type LayoutNodeId = number | string
+
+export type LayoutInput = {
+  nodes: Array<{ id: LayoutNodeId; width: number; height: number }>
+  edges: Array<{ from: LayoutNodeId; to: LayoutNodeId }>
+  groups?: LayoutNodeId[][]
+}
+
+export type LayoutOptions = {
+  columnGap?: number
+  rowGap?: number
+  groupGap?: number
+  sweeps?: number
+}
+
+type Item = {
+  key: string
+  id: LayoutNodeId | null
+  width: number
+  height: number
+  layer: number
+  group: number
+  order: number
+  y: number
+  up: Item[]
+  down: Item[]
+}
+
+const DEFAULT_COLUMN_GAP = 100
+const DEFAULT_ROW_GAP = 40
+const DEFAULT_GROUP_GAP = 80
+const DEFAULT_SWEEPS = 12
+const DUMMY_HEIGHT = 12
+
+/**
+ * Returns true when positions look unusable: a node without a `pos`, or at least half
+ * of the nodes stacked on an already used position (e.g. every `pos` is `[0,0]`).
+ */
+export function hasMissingPositions(nodes: any[]) {
+  if (nodes.length < 2) return false
+  const seen = new Set<string>()
+  let duplicates = 0
+  for (const node of nodes) {
+    const pos = node?.pos
+    const x = Array.isArray(pos) ? pos[0] : pos?.[0] ?? pos?.['0']
+    const y = Array.isArray(pos) ? pos[1] : pos?.[1] ?? pos?.['1']
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) return true
+    const key = `${Math.round(x)},${Math.round(y)}`
+    if (seen.has(key)) duplicates++
+    else seen.add(key)
+  }
+  return duplicates * 2 >= nodes.length
+}
+
+function removeCycles(ids: string[], successors: Map<string, string[]>) {
+  const state = new Map<string, 1 | 2>()
+  const reversed = new Set<string>()
+
+  for (const root of ids) {
+    if (state.has(root)) continue
+    const stack: Array<{ id: string; next: number }> = [{ id: root, next: 0 }]
+    state.set(root, 1)
+    while (stack.length) {
+      const frame = stack[stack.length - 1]!
+      const children = successors.get(frame.id) ?? []
+      if (frame.next >= children.length) {
+        state.set(frame.id, 2)
+        stack.pop()
+        continue
+      }
+      const child = children[frame.next++]!
+      const childState = state.get(child)
+      if (childState === 1) reversed.add(`${frame.id}\u0000${child}`)
+      else if (childState == null) {
+        state.set(child, 1)
+        stack.push({ id: child, next: 0 })
+      }
+    }
+  }
+
+  return reversed
+}
+
+// Longest path from the sources, so every edge points at least one layer to the right.
+function assignLayers(ids: string[], predecessors: Map<string, string[]>) {
+  const layers = new Map<string, number>()
+  const resolve = (start: string) => {
+    const stack = [start]
+    while (stack.length) {
+      const id = stack[stack.length - 1]!
+      if (layers.has(id)) {
+        stack.pop()
+        continue
+      }
+      const pending = (predecessors.get(id) ?? []).filter((p) => !layers.has(p))
+      if (pending.length) {
+        stack.push(...pending)
+        continue
+      }
+      const layer = (predecessors.get(id) ?? []).reduce((max, p) => Math.max(max, layers.get(p)! + 1), 0)
+      layers.set(id, layer)
+      stack.pop()
+    }
+  }
+  for (const id of ids) resolve(id)
+  return layers
+}
+
+function barycenter(neighbors: Item[], fallback: number) {
+  if (!neighbors.length) return fallback
+  return neighbors.reduce((sum, item) => sum + item.order, 0) / neighbors.length
+}
+
+// Keeps members of one group adjacent inside a layer, ordered by the group's mean position.
+function clusterGroups(layer: Item[]) {
+  const groupKey = new Map<number, number>()
+  const counts = new Map<number, number>()
+  layer.forEach((item, index) => {
+    if (item.group < 0) return
+    groupKey.set(item.group, (groupKey.get(item.group) ?? 0) + index)
+    counts.set(item.group, (counts.get(item.group) ?? 0) + 1)
+  })
+  const keyOf = (item: Item, index: number) =>
+    item.group < 0 ? index : groupKey.get(item.group)! / counts.get(item.group)!
+  const ranked = layer.map((item, index) => ({ item, index, key: keyOf(item, index) }))
+  ranked.sort((a, b) => a.key - b.key || a.item.group - b.item.group || a.index - b.index)
+  return ranked.map((entry) => entry.item)
+}
+
+function orderLayers(layers: Item[][], sweeps: number) {
+  const renumber = (layer: Item[]) => layer.forEach((item, index) => (item.order = index))
+  layers.forEach(renumber)
+
+  for (let sweep = 0; sweep < sweeps; sweep++) {
+    const downward = sweep % 2 === 0
+    const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse()
+    for (const layer of sequence) {
+      const weights = new Map<Item, number>()
+      for (const item of layer) weights.set(item, barycenter(downward ? item.up : item.down, item.order))
+      layer.sort((a, b) => weights.get(a)! - weights.get(b)! || a.order - b.order)
+      const clustered = clusterGroups(layer)
+      layer.splice(0, layer.length, ...clustered)
+      renumber(layer)
+    }
+  }
+}
+
+/**
+ * Pool-adjacent-violators: closest positions to `desired` (least squares) that keep
+ * every item at least `minGap[i]` below its predecessor.
+ */
+function fitOrderedPositions(desired: number[], minGap: number[]) {
+  const offsets: number[] = []
+  let acc = 0
+  for (let i = 0; i < desired.length; i++) {
+    acc += i > 0 ? minGap[i]! : 0
+    offsets.push(acc)
+  }
+
+  const blocks: Array<{ sum: number; count: number }> = []
+  for (let i = 0; i < desired.length; i++) {
+    blocks.push({ sum: desired[i]! - offsets[i]!, count: 1 })
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1]!
+      const prev = blocks[blocks.length - 2]!
+      if (prev.sum / prev.count <= last.sum / last.count) break
+      prev.sum += last.sum
+      prev.count += last.count
+      blocks.pop()
+    }
+  }
+
+  const out: number[] = []
+  for (const block of blocks) {
+    const value = block.sum / block.count
+    for (let i = 0; i < block.count; i++) out.push(value + offsets[out.length]!)
+  }
+  return out
+}
+
+function assignVerticalPositions(layers: Item[][], rowGap: number, groupGap: number, sweeps: number) {
+  const gapBefore = (layer: Item[], index: number) => {
+    if (index === 0) return 0
+    const prev = layer[index - 1]!
+    const item = layer[index]!
+    const gap = prev.group !== item.group && (prev.group >= 0 || item.group >= 0) ? groupGap : rowGap
+    return prev.height + gap
+  }
+
+  for (const layer of layers) {
+    let y = 0
+    layer.forEach((item, index) => {
+      y += gapBefore(layer, index)
+      item.y = y
+    })
+  }
+
+  const center = (item: Item) => item.y + item.height / 2
+  for (let sweep = 0; sweep < sweeps; sweep++) {
+    const downward = sweep % 2 === 0
+    const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse()
+    for (const layer of sequence) {
+      const desired = layer.map((item) => {
+        const neighbors = sweep < 2 ? (downward ? item.up : item.down) : [...item.up, ...item.down]
+        if (!neighbors.length) return item.y
+        return neighbors.reduce((sum, n) => sum + center(n), 0) / neighbors.length - item.height / 2
+      })
+      const gaps = layer.map((_, index) => gapBefore(layer, index))
+      const fitted = fitOrderedPositions(desired, gaps)
+      layer.forEach((item, index) => (item.y = fitted[index]!))
+    }
+  }
+}
+
+/**
+ * Left-to-right layered (Sugiyama-style) placement: break cycles, assign layers by
+ * longest path, route long edges through dummy items, reduce crossings with barycenter
+ * sweeps, then align each item with its neighbours. Returned positions are top-left corners.
+ */
+export function computeLayeredLayout(input: LayoutInput, options: LayoutOptions = {}) {
+  const columnGap = options.columnGap ?? DEFAULT_COLUMN_GAP
+  const rowGap = options.rowGap ?? DEFAULT_ROW_GAP
+  const groupGap = options.groupGap ?? DEFAULT_GROUP_GAP
+  const sweeps = options.sweeps ?? DEFAULT_SWEEPS
+
+  const items = new Map<string, Item>()
+  for (const node of input.nodes) {
+    const key = String(node.id)
+    if (items.has(key)) continue
+    items.set(key, { key, id: node.id, width: node.width, height: node.height, layer: 0, group: -1, order: 0, y: 0, up: [], down: [] })
+  }
+  input.groups?.forEach((members, group) => {
+    for (const id of members) {
+      const item = items.get(String(id))
+      if (item && item.group < 0) item.group = group
+    }
+  })
+
+  const ids = Array.from(items.keys())
+  const successors = new Map<string, string[]>()
+  const edgeKeys = new Set<string>()
+  for (const edge of input.edges) {
+    const from = String(edge.from)
+    const to = String(edge.to)
+    if (from === to || !items.has(from) || !items.has(to)) continue
+    const edgeKey = `${from}\u0000${to}`
+    if (edgeKeys.has(edgeKey)) continue
+    edgeKeys.add(edgeKey)
+    successors.set(from, [...(successors.get(from) ?? []), to])
+  }
+
+  const reversed = removeCycles(ids, successors)
+  const edges: Array<[string, string]> = []
+  const acyclicKeys = new Set<string>()
+  for (const edgeKey of edgeKeys) {
+    const [from, to] = edgeKey.split('\u0000') as [string, string]
+    const flipped: [string, string] = reversed.has(edgeKey) ? [to, from] : [from, to]
+    const flippedKey = `${flipped[0]}\u0000${flipped[1]}`
+    if (acyclicKeys.has(flippedKey)) continue
+    acyclicKeys.add(flippedKey)
+    edges.push(flipped)
+  }
+
+  const predecessors = new Map<string, string[]>()
+  for (const [from, to] of edges) predecessors.set(to, [...(predecessors.get(to) ?? []), from])
+  const layerOf = assignLayers(ids, predecessors)
+  for (const [key, item] of items) item.layer = layerOf.get(key) ?? 0
+
+  let dummyCount = 0
+  for (const [from, to] of edges) {
+    let prev = items.get(from)!
+    const target = items.get(to)!
+    for (let layer = prev.layer + 1; layer < target.layer; layer++) {
+      const key = `\u0000dummy${dummyCount++}`
+      const group = prev.group >= 0 && prev.group === target.group ? prev.group : -1
+      const dummy: Item = { key, id: null, width: 0, height: DUMMY_HEIGHT, layer, group, order: 0, y: 0, up: [prev], down: [] }
+      prev.down.push(dummy)
+      items.set(key, dummy)
+      prev = dummy
+    }
+    prev.down.push(target)
+    target.up.push(prev)
+  }
+
+  const layers: Item[][] = []
+  for (const item of items.values()) (layers[item.layer] ??= []).push(item)
+  for (let i = 0; i < layers.length; i++) layers[i] ??= []
+
+  orderLayers(layers, sweeps)
+  assignVerticalPositions(layers, rowGap, groupGap, sweeps)
+
+  const positions = new Map<LayoutNodeId, [number, number]>()
+  let minY = Infinity
+  for (const item of items.values()) if (item.id != null) minY = Math.min(minY, item.y)
+  if (!Number.isFinite(minY)) minY = 0
+
+  let x = 0
+  for (const layer of layers) {
+    const width = layer.reduce((max, item) => Math.max(max, item.width), 0)
+    for (const item of layer) {
+      if (item.id != null) positions.set(item.id, [x, Math.round(item.y - minY)])
+    }
+    x += width > 0 ? width + columnGap : columnGap / 2
+  }
+
+  return positions
+}
@@ -0,0 +1,46 @@
+const PREVIEW_PADDING = 8
+const PREVIEW_COLORS = {
+  background: '#0f121a',
+  group: 'rgba(88, 166, 255, 0.08)',
+  link: 'rgba(154, 164, 178, 0.45)',
+  node: '#353a45',
+  nodeBorder: 'rgba(255, 255, 255, 0.25)'
+}
+
+/** Draws the node boxes, groups and links of a workflow scaled to fit the canvas. */
+export function drawWorkflowPreview(canvasEl: HTMLCanvasElement, preview: WorkflowPreview) {
+  const ctx = canvasEl.getContext('2d')
+  if (!ctx) return
+  const { width, height } = canvasEl
+  ctx.fillStyle = PREVIEW_COLORS.background
+  ctx.fillRect(0, 0, width, height)
+
+  const [x, y, w, h] = preview.bounds
+  const scale = Math.min((width - PREVIEW_PADDING * 2) / Math.max(w, 1), (height - PREVIEW_PADDING * 2) / Math.max(h, 1))
+  ctx.save()
+  ctx.translate((width - w * scale) / 2, (height - h * scale) / 2)
+  ctx.scale(scale, scale)
+  ctx.translate(-x, -y)
+
+  ctx.fillStyle = PREVIEW_COLORS.group
+  for (const [gx, gy, gw, gh] of preview.groups) ctx.fillRect(gx, gy, gw, gh)
+
+  ctx.strokeStyle = PREVIEW_COLORS.link
+  ctx.lineWidth = 1.5 / scale
+  ctx.beginPath()
+  for (const [x1, y1, x2, y2] of preview.links) {
+    const bend = Math.max(Math.abs(x2 - x1) * 0.5, 40)
+    ctx.moveTo(x1, y1)
+    ctx.bezierCurveTo(x1 + bend, y1, x2 - bend, y2, x2, y2)
+  }
+  ctx.stroke()
+
+  ctx.fillStyle = PREVIEW_COLORS.node
+  ctx.strokeStyle = PREVIEW_COLORS.nodeBorder
+  ctx.lineWidth = 1 / scale
+  for (const [nx, ny, nw, nh] of preview.nodes) {
+    ctx.fillRect(nx, ny, nw, nh)
+    ctx.strokeRect(nx, ny, nw, nh)
+  }
+  ctx.restore()
+}
@@ -1,16 +1,58 @@
 import { LGraph, LGraphCanvas, LGraphNode, LiteGraph } from 'litegraph.js'
+import { parseObjectInfo, type NodeDefinition } from './definitions'
+import { collectDependencies, parseNodeMap, type NodeDependency, type NodeMap } from './dependencies'
+import { diffWorkflows, type NodeDiff, type WorkflowDiff } from './diff'
+import { ASSET_KIND_FOLDERS, ASSET_KIND_LABELS, collectAssets, type AssetKind, type AssetReference } from './inventory'
+import { computeLayeredLayout, hasMissingPositions } from './layout'
+import { drawWorkflowPreview } from './library'
+import {
+  drawMinimap,
+  fitMinimap,
+  minimapToGraph,
+  unionRects,
+  type MinimapRect,
+  type MinimapScene,
+  type MinimapTransform
+} from './minimap'
+import { normalizeWorkflow, type WorkflowSchema } from './normalize'
+import { workflowToApiPrompt } from './prompt'
+import { matchNode, type SearchMatch } from './search'
+import { renderSceneToSvg, type SvgScene } from './svg'
+import {
+  buildSubgraphWorkflow,
+  collectSubgraphDefinitions,
+  countNodesAllLevels,
+  fillSubgraphInstanceSlots,
+  type SubgraphDefinition
+} from './subgraph'
 import './style.css'
 
 type WorkflowPayload =
-  | { ok: true; sourcePath: string; workflow: unknown }
+  | { ok: true; sourcePath: string; workflow: unknown; prompt?: string; metadata?: Record<string, string>; warnings?: string[] }
   | { ok: false; sourcePath?: string; error: string }
 
+type ViewState = { offset: [number, number]; scale: number }
+
+// One level of subgraph drill-in; the tab itself is the root level.
+type SubgraphFrame = { type: string; title: string; workflow: unknown; view: ViewState | null }
+
 type TabState = {
   id: string
   sourcePath: string
   title: string
   workflow: unknown
-  view: { offset: [number, number]; scale: number } | null
+  // API-format prompt the file carried, kept so it can be written back alongside the workflow.
+  prompt: string | null
+  metadata: Record<string, string>
+  warnings: string[]
+  schema: WorkflowSchema
+  view: ViewState | null
+  subgraphs: Map<string, SubgraphDefinition>
+  path: SubgraphFrame[]
+  // The source file was deleted or renamed after it was loaded.
+  missing: boolean
+  // Why a tab restored from the last session could not be read; it stays an empty placeholder until it can.
+  error: string | null
 }
 
 type ViewerParamItem = {
@@ -27,13 +69,73 @@ const openBtn = document.getElementById('open-btn') as HTMLButtonElement
 const fitBtn = document.getElementById('fit-btn') as HTMLButtonElement
 const resetBtn = document.getElementById('reset-btn') as HTMLButtonElement
 const toggleSidebarBtn = document.getElementById('toggle-sidebar-btn') as HTMLButtonElement
+const findBtn = document.getElementById('find-btn') as HTMLButtonElement
+const searchPanelEl = document.getElementById('search-panel')!
+const searchInputEl = document.getElementById('search-input') as HTMLInputElement
+const searchCountEl = document.getElementById('search-count')!
+const searchResultsEl = document.getElementById('search-results') as HTMLUListElement
+const searchCloseBtn = document.getElementById('search-close-btn') as HTMLButtonElement
+const compareBtn = document.getElementById('compare-btn') as HTMLButtonElement
+const comparePanelEl = document.getElementById('compare-panel')!
+const compareSelectEl = document.getElementById('compare-select') as HTMLSelectElement
+const compareCountEl = document.getElementById('compare-count')!
+const compareResultsEl = document.getElementById('compare-results') as HTMLUListElement
+const comparePrevBtn = document.getElementById('compare-prev-btn') as HTMLButtonElement
+const compareNextBtn = document.getElementById('compare-next-btn') as HTMLButtonElement
+const compareCloseBtn = document.getElementById('compare-close-btn') as HTMLButtonElement
+const exportPanelEl = document.getElementById('export-panel')!
+const exportFormatEl = document.getElementById('export-format') as HTMLSelectElement
+const exportAreaEl = document.getElementById('export-area') as HTMLSelectElement
+const exportScaleEl = document.getElementById('export-scale') as HTMLSelectElement
+const exportBackgroundEl = document.getElementById('export-background') as HTMLSelectElement
+const exportSaveBtn = document.getElementById('export-save-btn') as HTMLButtonElement
+const exportCancelBtn = document.getElementById('export-cancel-btn') as HTMLButtonElement
+const depsBtn = document.getElementById('deps-btn') as HTMLButtonElement
+const depsPanelEl = document.getElementById('deps-panel')!
+const depsCountEl = document.getElementById('deps-count')!
+const depsResultsEl = document.getElementById('deps-results') as HTMLUListElement
+const depsMapBtn = document.getElementById('deps-map-btn') as HTMLButtonElement
+const depsCloseBtn = document.getElementById('deps-close-btn') as HTMLButtonElement
+const assetsBtn = document.getElementById('assets-btn') as HTMLButtonElement
+const assetsPanelEl = document.getElementById('assets-panel')!
+const assetsCountEl = document.getElementById('assets-count')!
+const assetsDirEl = document.getElementById('assets-dir')!
+const assetsResultsEl = document.getElementById('assets-results') as HTMLUListElement
+const assetsDirBtn = document.getElementById('assets-dir-btn') as HTMLButtonElement
+const assetsCloseBtn = document.getElementById('assets-close-btn') as HTMLButtonElement
+const libraryBtn = document.getElementById('library-btn') as HTMLButtonElement
+const libraryEl = document.getElementById('library')!
+const libraryDirEl = document.getElementById('library-dir')!
+const libraryCountEl = document.getElementById('library-count')!
+const libraryGridEl = document.getElementById('library-grid') as HTMLUListElement
+const libraryDirBtn = document.getElementById('library-dir-btn') as HTMLButtonElement
+const libraryCloseBtn = document.getElementById('library-close-btn') as HTMLButtonElement
+const catalogBtn = document.getElementById('catalog-btn') as HTMLButtonElement
+const catalogPanelEl = document.getElementById('catalog-panel')!
+const catalogInputEl = document.getElementById('catalog-input') as HTMLInputElement
+const catalogCountEl = document.getElementById('catalog-count')!
+const catalogStatusEl = document.getElementById('catalog-status')!
+const catalogFoldersEl = document.getElementById('catalog-folders') as HTMLUListElement
+const catalogResultsEl = document.getElementById('catalog-results') as HTMLUListElement
+const catalogAddBtn = document.getElementById('catalog-add-btn') as HTMLButtonElement
+const catalogCloseBtn = document.getElementById('catalog-close-btn') as HTMLButtonElement
 const copySelectionBtn = document.getElementById('copy-selection-btn') as HTMLButtonElement
 const copyParamsBtn = document.getElementById('copy-params-btn') as HTMLButtonElement
 const tabsEl = document.getElementById('tabs')!
+const breadcrumbsEl = document.getElementById('breadcrumbs')!
 const dropTarget = document.getElementById('drop-target')!
 const canvasEl = document.getElementById('graph-canvas') as HTMLCanvasElement
+const splitBtn = document.getElementById('split-btn') as HTMLButtonElement
+const splitPaneEl = document.getElementById('split-pane')!
+const splitCanvasEl = document.getElementById('split-canvas') as HTMLCanvasElement
+const splitSelectEl = document.getElementById('split-select') as HTMLSelectElement
+const splitLockInput = document.getElementById('split-lock-input') as HTMLInputElement
+const splitCloseBtn = document.getElementById('split-close-btn') as HTMLButtonElement
 const mainLayoutEl = document.querySelector('.main') as HTMLElement
 const nodeOverlayEl = document.getElementById('node-overlay') as HTMLDivElement
+const minimapBtn = document.getElementById('minimap-btn') as HTMLButtonElement
+const minimapEl = document.getElementById('minimap')!
+const minimapCanvasEl = document.getElementById('minimap-canvas') as HTMLCanvasElement
 const overlayMeasureCtx = document.createElement('canvas').getContext('2d')
 
 type Rgb = { r: number; g: number; b: number }
@@ -149,10 +251,12 @@ function ensureTypeColors(type: string) {
   for (const key of keys) {
     ;(LGraphCanvas as any).link_type_colors ??= {}
     ;(LGraphCanvas as any).link_type_colors[key] = color
-    ;(canvas as any).default_connection_color_byType ??= {}
-    ;(canvas as any).default_connection_color_byTypeOff ??= {}
-    ;(canvas as any).default_connection_color_byType[key] = color
-    ;(canvas as any).default_connection_color_byTypeOff[key] = dimHex(color, 0.35)
+    for (const target of [canvas, splitCanvas] as any[]) {
+      target.default_connection_color_byType ??= {}
+      target.default_connection_color_byTypeOff ??= {}
+      target.default_connection_color_byType[key] = color
+      target.default_connection_color_byTypeOff[key] = dimHex(color, 0.35)
+    }
   }
 }
 
@@ -179,20 +283,36 @@ LiteGraph.DEFAULT_SHADOW_COLOR = 'rgba(0,0,0,0.35)'
 LiteGraph.CANVAS_GRID_SIZE = 40
 LiteGraph.NODE_DEFAULT_SHAPE = 'card'
 
+const THEME_BACKGROUND_COLOR = '#0f121a'
+
+function configureViewerCanvas(target: LGraphCanvas) {
+  const anyCanvas = target as any
+  anyCanvas.allow_dragcanvas = false
+  anyCanvas.allow_dragnodes = false
+  anyCanvas.render_shadows = false
+  anyCanvas.render_connections_shadows = false
+  anyCanvas.connections_width = 3.5
+  anyCanvas.use_gradients = true
+  anyCanvas.render_canvas_border = false
+  anyCanvas.clear_background_color = THEME_BACKGROUND_COLOR
+  anyCanvas.title_text_font = '14px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif'
+  anyCanvas.inner_text_font = '12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif'
+}
+
 const graph = new LGraph()
 const canvas = new LGraphCanvas(canvasEl, graph)
-;(canvas as any).allow_dragcanvas = false
-;(canvas as any).allow_dragnodes = false
-;(canvas as any).render_shadows = false
-;(canvas as any).render_connections_shadows = false
-;(canvas as any).connections_width = 3.5
-;(canvas as any).use_gradients = true
-;(canvas as any).render_canvas_border = false
-;(canvas as any).clear_background_color = '#0f121a'
-;(canvas as any).title_text_font = '14px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif'
-;(canvas as any).inner_text_font = '12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif'
+configureViewerCanvas(canvas)
 graph.start()
 
+// Second pane of the split view; it pans and zooms with LiteGraph's own handlers.
+const splitGraph = new LGraph()
+const splitCanvas = new LGraphCanvas(splitCanvasEl, splitGraph)
+configureViewerCanvas(splitCanvas)
+;(splitCanvas as any).allow_dragcanvas = true
+
+// Never drawn: lays out tabs saved without positions before any pane shows them.
+const layoutGraph = new LGraph()
+
 function getEffectiveDpr() {
   const raw = Number(window.devicePixelRatio || 1)
   if (!Number.isFinite(raw) || raw <= 0) return 1
@@ -237,6 +357,7 @@ function enableHiDpiCanvas(canvasInstance: LGraphCanvas) {
 }
 
 enableHiDpiCanvas(canvas)
+enableHiDpiCanvas(splitCanvas)
 
 const GROUP_DRAG_HANDLE_HEIGHT = 28
 ;(graph as any).getGroupOnPos = (x: number, y: number) => {
@@ -253,6 +374,10 @@ const GROUP_DRAG_HANDLE_HEIGHT = 28
 let tabs: TabState[] = []
 let activeTabId: string | null = null
 let sidebarVisible = true
+// Loaded from an object_info.json; empty until the user provides one.
+let nodeDefinitions = new Map<string, NodeDefinition>()
+// ComfyUI-Manager's extension-node-map.json, used to name the pack each custom node comes from.
+let nodeMap: NodeMap | null = null
 
 const PARAM_MAX_LINES = 20
 const PARAM_MAX_VALUE_CHARS = 60
@@ -270,7 +395,23 @@ const PARAM_FONT = `${PARAM_FONT_SIZE}px ${PARAM_FONT_FAMILY}`
 const ZOOM_STEP = 1.22
 const ZOOM_WHEEL_INTENSITY = 60
 const MULTILINE_PREVIEW_LINES = 6
-
+const METADATA_MAX_VALUE_CHARS = 240
+const SEARCH_MAX_RESULTS = 200
+const SEARCH_HIGHLIGHT_COLOR = '#d29922'
+const DIFF_COLORS: Record<NodeDiff['kind'], string> = { added: '#56d364', removed: '#f85149', modified: '#d29922' }
+const DIFF_MAX_CHANGES_SHOWN = 4
+const EXPORT_PADDING = 40
+// Dropped files with these names are loaded as reference data instead of opened as workflows.
+const REFERENCE_FILE_PATTERNS: Array<[ReferenceKind, RegExp]> = [
+  ['node-definitions', /^object_info.*\.json$/i],
+  ['node-map', /^extension-node-map.*\.json$/i]
+]
+const DEPENDENCY_UNKNOWN_COLOR = '#f85149'
+// Chromium refuses to allocate canvases past these limits.
+const EXPORT_MAX_SIDE = 16384
+const EXPORT_MAX_PIXELS = 120_000_000
+
+// Fallback when no object_info.json is loaded.
 const COMFY_WIDGET_LABELS: Record<string, string[]> = {
   KSampler: ['seed', 'control_after_generate', 'steps', 'cfg', 'sampler_name', 'scheduler', 'denoise'],
   EmptyLatentImage: ['width', 'height', 'batch_size'],
@@ -348,7 +489,11 @@ async function copyText(text: string) {
   }
 }
 
-function ensureAllNodeTypes(workflow: any) {
+// Stub classes stay registered across tabs, so every load refreshes them from that tab's subgraphs
+// and the loaded node definitions.
+const stubNodeTypes = new Map<string, any>()
+
+function ensureAllNodeTypes(workflow: any, subgraphs: Map<string, SubgraphDefinition> = new Map()) {
   const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
   const types = new Set<string>()
   for (const node of nodes) {
@@ -356,22 +501,26 @@ function ensureAllNodeTypes(workflow: any) {
   }
 
   for (const type of types) {
-    if (LiteGraph.registered_node_types?.[type]) continue
-    const title = type.split('/').at(-1) ?? type
-    const accent = stableTypeColor(type)
-    const titleColor = dimHex(accent, 0.65)
-    class UnknownNode extends (LGraphNode as any) {
-      constructor() {
-        super()
-        this.title = title
-        this.color = titleColor
-        this.bgcolor = '#151a24'
-        this.boxcolor = 'rgba(255,255,255,0.08)'
+    let stub = stubNodeTypes.get(type)
+    if (!stub && LiteGraph.registered_node_types?.[type]) continue
+    const subgraph = subgraphs.get(type)
+    const definition = nodeDefinitions.get(type)
+    if (!stub) {
+      stub = class UnknownNode extends (LGraphNode as any) {
+        constructor() {
+          super()
+          this.title = (this.constructor as any).title
+          this.color = (this.constructor as any).titleColor
+          this.bgcolor = '#151a24'
+          this.boxcolor = 'rgba(255,255,255,0.08)'
+        }
       }
+      stubNodeTypes.set(type, stub)
+      LiteGraph.registerNodeType(type, stub)
     }
-    ;(UnknownNode as any).title = title
-    ;(UnknownNode as any).desc = 'ComfyUI node (viewer stub type)'
-    LiteGraph.registerNodeType(type, UnknownNode as any)
+    stub.title = subgraph?.name ?? definition?.displayName ?? type.split('/').at(-1) ?? type
+    stub.titleColor = dimHex(stableTypeColor(subgraph ? 'subgraph' : type), 0.65)
+    stub.desc = subgraph ? 'ComfyUI subgraph (double-click to open)' : definition?.description || 'ComfyUI node (viewer stub type)'
   }
 }
 
@@ -394,6 +543,29 @@ function formatParamValue(value: unknown): string {
   }
 }
 
+// Graphs converted from API prompts name the prompt's literal inputs, which they hold as widget values.
+const WIDGET_NAMES_PROPERTY = 'Widget names'
+
+function convertedWidgetNames(node: any): string[] | null {
+  const names = node?.properties?.[WIDGET_NAMES_PROPERTY]
+  return Array.isArray(names) ? names : null
+}
+
+function getWidgetLabels(node: any): string[] {
+  const names = convertedWidgetNames(node)
+  if (names) return names
+  const definition = nodeDefinitions.get(String(node?.type ?? ''))
+  if (definition) return definition.widgets.map((widget) => widget.name)
+  return COMFY_WIDGET_LABELS[String(node?.type ?? '')] ?? []
+}
+
+// Definitions say exactly which values are frontend controls; otherwise guess from the label.
+function isUiOnlyWidget(node: any, index: number, label: string, value: unknown) {
+  const definition = convertedWidgetNames(node) ? null : nodeDefinitions.get(String(node?.type ?? ''))
+  if (definition) return definition.widgets[index]?.uiOnly ?? false
+  return shouldOmitWidgetParam(label, value)
+}
+
 function buildViewerParams(node: any): ViewerParamItem[] {
   const out: ViewerParamItem[] = []
 
@@ -401,18 +573,18 @@ function buildViewerParams(node: any): ViewerParamItem[] {
   if (props && typeof props === 'object') {
     const keys = Object.keys(props).sort((a, b) => a.localeCompare(b))
     for (const key of keys) {
-      if (key === 'Node name for S&R') continue
+      if (key === 'Node name for S&R' || key === WIDGET_NAMES_PROPERTY) continue
       out.push({ label: key, value: props[key], kind: 'inline' })
     }
   }
 
   const widgetsValues = node?.widgets_values
   if (Array.isArray(widgetsValues)) {
-    const labels = COMFY_WIDGET_LABELS[String(node?.type ?? '')] ?? []
+    const labels = getWidgetLabels(node)
     for (let i = 0; i < widgetsValues.length; i++) {
       const label = labels[i] ?? `w${i}`
       const raw = widgetsValues[i]
-      if (shouldOmitWidgetParam(label, raw)) continue
+      if (isUiOnlyWidget(node, i, label, raw)) continue
       const kind: ViewerParamItem['kind'] =
         label === 'text' || (typeof raw === 'string' && raw.includes('\n')) ? 'multiline' : 'inline'
       out.push({ label, value: raw, kind })
@@ -722,9 +894,31 @@ function installParamOverlay(node: any) {
   if (Array.isArray(node.size) && params.length) node.size[1] = Math.max(node.size[1] ?? 0, computeRequiredNodeHeight(node, params))
 }
 
-function decorateGraphNodes() {
-  const nodes: any[] = (graph as any)._nodes ?? []
-  for (const node of nodes) installParamOverlay(node)
+// Names unnamed or untyped slots (API-converted graphs, stub types) from the node definition.
+function applyDefinitionSlots(node: any) {
+  const definition = nodeDefinitions.get(String(node?.type ?? ''))
+  if (!definition) return
+  ;(node.outputs ?? []).forEach((slot: any, i: number) => {
+    const output = definition.outputs[i]
+    if (!slot || !output) return
+    if (!slot.name || slot.name === '*' || slot.name === slot.type) slot.label = output.name
+    if (!slot.type || slot.type === '*') slot.type = output.type
+    if (output.tooltip) slot.tooltip = output.tooltip
+  })
+  for (const slot of node.inputs ?? []) {
+    const input = definition.inputs.find((item) => item.name === slot?.name)
+    if (!input) continue
+    if (!slot.type || slot.type === '*') slot.type = input.type
+    if (input.tooltip) slot.tooltip = input.tooltip
+  }
+}
+
+function decorateGraphNodes(target: LGraph = graph) {
+  const nodes: any[] = (target as any)._nodes ?? []
+  for (const node of nodes) {
+    applyDefinitionSlots(node)
+    installParamOverlay(node)
+  }
 }
 
 function computeParamStartY(node: any) {
@@ -757,6 +951,7 @@ function fitToContent() {
     canvas.ds.offset = [0, 0]
   }
   canvas.draw(true, true)
+  handleViewChange()
 }
 
 function showSelection(value: unknown) {
@@ -848,10 +1043,28 @@ function toNodeDetails(node: any) {
     properties: node.properties,
     widgets_values: node.widgets_values,
     inputs: node.inputs,
-    outputs: node.outputs
+    outputs: node.outputs,
+    ...definitionDetails(String(node.type ?? ''))
+  }
+}
+
+function definitionDetails(type: string) {
+  const definition = nodeDefinitions.get(type)
+  if (!definition) return {}
+  return {
+    definition: {
+      displayName: definition.displayName,
+      category: definition.category,
+      ...(definition.description ? { description: definition.description } : {}),
+      ...(definition.outputNode ? { outputNode: true } : {})
+    }
   }
 }
 
+function truncateMetadataValue(value: string) {
+  return value.length > METADATA_MAX_VALUE_CHARS ? `${value.slice(0, METADATA_MAX_VALUE_CHARS)}…` : value
+}
+
 function showActiveTabSummary() {
   const tab = getActiveTab()
   if (!tab) {
@@ -864,9 +1077,23 @@ function showActiveTabSummary() {
     return
   }
   const workflow: any = tab.workflow
+  const metadataKeys = Object.keys(tab.metadata).sort((a, b) => a.localeCompare(b))
+  const subgraphCount = new Set(Array.from(tab.subgraphs.values(), (definition) => definition.id)).size
   showSelection({
     sourcePath: tab.sourcePath,
-    summary: { nodes: workflow?.nodes?.length, links: workflow?.links?.length }
+    ...(tab.error ? { error: tab.error } : {}),
+    schema: tab.schema,
+    ...(tab.path.length ? { subgraphPath: tab.path.map((frame) => frame.title) } : {}),
+    summary: {
+      nodes: workflow?.nodes?.length,
+      ...(subgraphCount ? { nodesAllLevels: countNodesAllLevels(workflow, tab.subgraphs), subgraphs: subgraphCount } : {}),
+      links: workflow?.links?.length
+    },
+    ...(tab.warnings.length ? { warnings: tab.warnings } : {}),
+    ...(workflow?.extra?.a1111_parameters ? { recipe: workflow.extra.a1111_parameters } : {}),
+    ...(metadataKeys.length
+      ? { metadata: Object.fromEntries(metadataKeys.map((key) => [key, truncateMetadataValue(tab.metadata[key]!)])) }
+      : {})
   })
   selectedNode = null
   copyParamsBtn.disabled = true
@@ -877,6 +1104,7 @@ function showActiveTabSummary() {
 
 canvas.onNodeSelected = (node: any) => {
   hintEl.classList.add('hidden')
+  highlightInOtherPane('primary', node)
   showSelection(toNodeDetails(node))
   selectedNode = node
   copyParamsBtn.disabled = false
@@ -887,7 +1115,10 @@ canvas.onNodeSelected = (node: any) => {
   updateNodeOverlay()
 }
 
-canvas.onNodeDeselected = () => showActiveTabSummary()
+canvas.onNodeDeselected = () => {
+  highlightInOtherPane('primary', null)
+  showActiveTabSummary()
+}
 
 function nodeParamsToText(node: any) {
   if (!node || typeof node !== 'object') return ''
@@ -922,10 +1153,39 @@ function getActiveTab() {
   return tabs.find((t) => t.id === activeTabId) ?? null
 }
 
+function getActiveLevel(tab: TabState): { workflow: unknown; view: ViewState | null } {
+  return tab.path.at(-1) ?? tab
+}
+
 function saveActiveTabView() {
   const tab = getActiveTab()
   if (!tab) return
-  tab.view = { offset: [canvas.ds.offset[0], canvas.ds.offset[1]], scale: canvas.ds.scale }
+  getActiveLevel(tab).view = { offset: [canvas.ds.offset[0], canvas.ds.offset[1]], scale: canvas.ds.scale }
+}
+
+function renderBreadcrumbs() {
+  breadcrumbsEl.textContent = ''
+  const tab = getActiveTab()
+  breadcrumbsEl.classList.toggle('hidden', !tab?.path.length)
+  if (!tab?.path.length) return
+
+  const labels = [tab.title, ...tab.path.map((frame) => frame.title)]
+  labels.forEach((label, depth) => {
+    if (depth > 0) {
+      const separatorEl = document.createElement('span')
+      separatorEl.className = 'crumb-separator'
+      separatorEl.textContent = '›'
+      breadcrumbsEl.append(separatorEl)
+    }
+    const crumbBtn = document.createElement('button')
+    crumbBtn.type = 'button'
+    const isCurrent = depth === labels.length - 1
+    crumbBtn.className = `crumb${isCurrent ? ' current' : ''}`
+    crumbBtn.textContent = label
+    crumbBtn.title = label
+    if (!isCurrent) crumbBtn.addEventListener('click', () => navigateToDepth(depth))
+    breadcrumbsEl.append(crumbBtn)
+  })
 }
 
 function updateEmptyState() {
@@ -938,6 +1198,7 @@ function updateEmptyState() {
     setStatus('Ready')
     graph.clear()
     canvas.draw(true, true)
+    updateMinimap()
   }
 }
 
@@ -946,8 +1207,13 @@ function renderTabs() {
   for (const tab of tabs) {
     const tabBtn = document.createElement('button')
     tabBtn.type = 'button'
-    tabBtn.className = `tab${tab.id === activeTabId ? ' active' : ''}`
-    tabBtn.title = tab.sourcePath
+    tabBtn.className = `tab${tab.id === activeTabId ? ' active' : ''}${tab.missing ? ' missing' : ''}`
+    tabBtn.classList.toggle('reloaded', recentlyReloadedTabIds.has(tab.id))
+    tabBtn.title = tab.error
+      ? `${tab.sourcePath} (${tab.error})`
+      : tab.missing
+        ? `${tab.sourcePath} (deleted or renamed)`
+        : tab.sourcePath
     tabBtn.addEventListener('click', () => activateTab(tab.id))
 
     const titleEl = document.createElement('span')
@@ -968,57 +1234,216 @@ function renderTabs() {
     tabBtn.append(titleEl, closeBtn)
     tabsEl.append(tabBtn)
   }
+  renderSplitTabOptions()
+}
+
+const GROUP_LAYOUT_PADDING = 12
+
+function isNodeInsideGroup(node: any, group: any) {
+  if (!isVec2(node?.pos) || !isVec2(node?.size)) return false
+  const bounding = group?._bounding
+  if (!bounding) return false
+  const cx = node.pos[0] + node.size[0] / 2
+  const cy = node.pos[1] + node.size[1] / 2
+  return cx >= bounding[0] && cx <= bounding[0] + bounding[2] && cy >= bounding[1] && cy <= bounding[1] + bounding[3]
+}
+
+function fitGroupToNodes(group: any, members: any[]) {
+  if (!members.length || !group?._bounding) return
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  const headerHeight = (group.font_size ?? 24) + GROUP_LAYOUT_PADDING
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const node of members) {
+    minX = Math.min(minX, node.pos[0])
+    minY = Math.min(minY, node.pos[1] - titleHeight)
+    maxX = Math.max(maxX, node.pos[0] + node.size[0])
+    maxY = Math.max(maxY, node.pos[1] + node.size[1])
+  }
+  group._bounding[0] = minX - GROUP_LAYOUT_PADDING
+  group._bounding[1] = minY - GROUP_LAYOUT_PADDING - headerHeight
+  group._bounding[2] = maxX - minX + GROUP_LAYOUT_PADDING * 2
+  group._bounding[3] = maxY - minY + GROUP_LAYOUT_PADDING * 2 + headerHeight
+}
+
+// Places the live graph nodes with the layered layout; group membership is taken from
+// the current positions unless those are meaningless.
+function applyAutoLayout({ keepGroups = true, target = graph }: { keepGroups?: boolean; target?: LGraph } = {}) {
+  const nodes: any[] = (target as any)._nodes ?? []
+  if (!nodes.length) return false
+  const groups: any[] = (target as any)._groups ?? []
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  for (const node of nodes) normalizeNodeSize(node)
+
+  const members = keepGroups ? groups.map((group) => nodes.filter((node) => isNodeInsideGroup(node, group))) : []
+  const links: any[] = Object.values((target as any).links ?? {})
+  const positions = computeLayeredLayout({
+    nodes: nodes.map((node) => ({ id: node.id, width: node.size[0], height: node.size[1] + titleHeight })),
+    edges: links.filter(Boolean).map((link) => ({ from: link.origin_id, to: link.target_id })),
+    groups: members.map((list) => list.map((node) => node.id))
+  })
+
+  for (const node of nodes) {
+    const pos = positions.get(node.id)
+    if (!pos) continue
+    node.pos = [pos[0], pos[1] + titleHeight]
+  }
+  members.forEach((list, index) => fitGroupToNodes(groups[index], list))
+  ;(target as any).change?.()
+  return true
+}
+
+function syncGraphPositionsToWorkflow(workflow: any, source: LGraph = graph) {
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
+  for (const info of nodes) {
+    const node = (source as any).getNodeById?.(info?.id)
+    if (node && isVec2(node.pos)) info.pos = [node.pos[0], node.pos[1]]
+  }
+  const groups: any[] = Array.isArray(workflow?.groups) ? workflow.groups : []
+  const liveGroups: any[] = (source as any)._groups ?? []
+  groups.forEach((info, index) => {
+    const bounding = liveGroups[index]?._bounding
+    if (info && bounding) info.bounding = Array.from(bounding as ArrayLike<number>, (v) => Math.round(v))
+  })
+}
+
+// LGraph.configure swaps `data.links` for its live LLink table; hand it a copy so the tab
+// keeps its serialized links.
+function configureGraph(target: LGraph, workflow: any) {
+  target.clear()
+  target.configure({ ...workflow, links: Array.isArray(workflow?.links) ? [...workflow.links] : workflow?.links })
 }
 
-function loadWorkflowIntoGraph(workflow: unknown, { fit = false }: { fit?: boolean } = {}) {
+// Converted API prompts and A1111 parameters have no positions; they are laid out once, as the tab
+// is read, so the split pane and comparisons see the same places the main canvas shows.
+function layoutMissingPositions(workflow: any, subgraphs: Map<string, SubgraphDefinition>) {
+  if (!hasMissingPositions(Array.isArray(workflow?.nodes) ? workflow.nodes : [])) return
+  ensureAllNodeTypes(workflow, subgraphs)
+  configureGraph(layoutGraph, workflow)
+  decorateGraphNodes(layoutGraph)
+  if (applyAutoLayout({ keepGroups: false, target: layoutGraph })) syncGraphPositionsToWorkflow(workflow, layoutGraph)
+  layoutGraph.clear()
+}
+
+function loadWorkflowIntoGraph(
+  workflow: unknown,
+  { fit = false, subgraphs }: { fit?: boolean; subgraphs?: Map<string, SubgraphDefinition> } = {}
+) {
   const wf = workflow as any
+  const needsLayout = hasMissingPositions(Array.isArray(wf?.nodes) ? wf.nodes : [])
   registerWorkflowTypeColors(wf)
   for (const type of Object.keys(BASE_TYPE_COLORS)) ensureTypeColors(type)
-  ensureAllNodeTypes(wf)
-  graph.clear()
-  graph.configure(wf)
+  ensureAllNodeTypes(wf, subgraphs)
+  configureGraph(graph, wf)
   decorateGraphNodes()
+  if (searchOpen) runSearch({ jump: false })
+  if (dependenciesOpen) runDependencies()
+  if (inventoryOpen && inventoryTabId !== activeTabId) runInventory()
+  if (needsLayout && applyAutoLayout({ keepGroups: false })) syncGraphPositionsToWorkflow(wf)
   if (fit) fitToContent()
   canvas.draw(true, true)
+  updateMinimap()
+}
+
+function autoLayoutActiveTab() {
+  const tab = getActiveTab()
+  if (!tab || !applyAutoLayout()) return
+  invalidateMinimap()
+  syncGraphPositionsToWorkflow(getActiveLevel(tab).workflow)
+  if (splitOpen && splitTabId === tab.id) loadSplitTab()
+  fitToContent()
+  saveActiveTabView()
+  setStatus(`Auto layout: ${tab.sourcePath}`)
 }
 
 function activateTab(id: string) {
   if (activeTabId === id) return
 
   saveActiveTabView()
+  if (compareState) closeCompare()
   activeTabId = id
   const tab = getActiveTab()
   renderTabs()
 
   if (!tab) {
+    renderBreadcrumbs()
     updateEmptyState()
     return
   }
 
-  setStatus(`Loaded: ${tab.sourcePath}`)
+  const warningNote = tab.warnings.length ? ` (${tab.warnings.length} warning${tab.warnings.length === 1 ? '' : 's'})` : ''
+  setStatus(tab.error ? `Error: ${tab.sourcePath}: ${tab.error}` : `Loaded: ${tab.sourcePath}${warningNote}`)
   hintEl.classList.add('hidden')
+  showActiveTabLevel(tab)
+}
+
+function showActiveTabLevel(tab: TabState) {
+  renderBreadcrumbs()
   showActiveTabSummary()
 
-  loadWorkflowIntoGraph(tab.workflow)
-  if (tab.view) {
-    canvas.ds.offset = [tab.view.offset[0], tab.view.offset[1]]
-    canvas.ds.scale = tab.view.scale
+  const level = getActiveLevel(tab)
+  loadWorkflowIntoGraph(level.workflow, { subgraphs: tab.subgraphs })
+  if (level.view) {
+    canvas.ds.offset = [level.view.offset[0], level.view.offset[1]]
+    canvas.ds.scale = level.view.scale
     canvas.draw(true, true)
+    handleViewChange()
   } else {
     fitToContent()
-    tab.view = { offset: [canvas.ds.offset[0], canvas.ds.offset[1]], scale: canvas.ds.scale }
+    level.view = { offset: [canvas.ds.offset[0], canvas.ds.offset[1]], scale: canvas.ds.scale }
+  }
+}
+
+function normalizeSubgraphLevel(definition: SubgraphDefinition, subgraphs: Map<string, SubgraphDefinition>) {
+  const inner = buildSubgraphWorkflow(definition)
+  fillSubgraphInstanceSlots(inner, subgraphs)
+  return normalizeWorkflow(inner)
+}
+
+function openSubgraphNode(node: any) {
+  const tab = getActiveTab()
+  const definition = tab?.subgraphs.get(String(node?.type ?? ''))
+  if (!tab || !definition) return false
+  if (tab.path.some((frame) => frame.type === definition.id)) {
+    setStatus(`Subgraph "${definition.name}" contains itself; not opened`)
+    return true
   }
+
+  const normalized = normalizeSubgraphLevel(definition, tab.subgraphs)
+  if (compareState) closeCompare()
+  saveActiveTabView()
+  tab.path = [...tab.path, { type: definition.id, title: node.title || definition.name, workflow: normalized.workflow, view: null }]
+  const issueNote = normalized.issues.length ? ` (${normalized.issues.length} issue${normalized.issues.length === 1 ? '' : 's'})` : ''
+  setStatus(`Subgraph: ${definition.name}${issueNote}`)
+  showActiveTabLevel(tab)
+  return true
+}
+
+function navigateToDepth(depth: number) {
+  const tab = getActiveTab()
+  if (!tab || depth < 0 || depth >= tab.path.length) return
+  saveActiveTabView()
+  tab.path = tab.path.slice(0, depth)
+  setStatus(depth ? `Subgraph: ${tab.path.at(-1)!.title}` : `Loaded: ${tab.sourcePath}`)
+  showActiveTabLevel(tab)
 }
 
 function closeTab(id: string) {
   const index = tabs.findIndex((t) => t.id === id)
   if (index < 0) return
   const wasActive = activeTabId === id
+  if (compareState) closeCompare()
 
   tabs = tabs.filter((t) => t.id !== id)
+  watchOpenTabs()
   if (!tabs.length) {
+    if (dependenciesOpen) closeDependencies()
+    if (inventoryOpen) closeInventory()
     activeTabId = null
     renderTabs()
+    renderBreadcrumbs()
     updateEmptyState()
     return
   }
@@ -1042,32 +1467,219 @@ function cycleTab(direction: 1 | -1) {
   activateTab(tabs[nextIndex]!.id)
 }
 
-async function openWorkflowInNewTab(sourcePath: string) {
+function readTabContent(payload: Extract<WorkflowPayload, { ok: true }>) {
+  // Instances need their exposed slots before normalizing, or links into them are dropped.
+  const subgraphs = collectSubgraphDefinitions(payload.workflow)
+  fillSubgraphInstanceSlots(payload.workflow, subgraphs)
+  const normalized = normalizeWorkflow(payload.workflow)
+  layoutMissingPositions(normalized.workflow, subgraphs)
+  return {
+    workflow: normalized.workflow,
+    prompt: payload.prompt ?? null,
+    metadata: payload.metadata ?? {},
+    warnings: [...(payload.warnings ?? []), ...normalized.issues],
+    schema: normalized.schema,
+    subgraphs
+  }
+}
+
+function createTab(payload: Extract<WorkflowPayload, { ok: true }>, view: ViewState | null = null): TabState {
+  return {
+    id: crypto.randomUUID(),
+    sourcePath: payload.sourcePath,
+    title: pathToTitle(payload.sourcePath),
+    ...readTabContent(payload),
+    view,
+    path: [],
+    missing: false,
+    error: null
+  }
+}
+
+// Keeps a restored tab's place for a file that could not be read; it loads once the file is back.
+function createPlaceholderTab(sourcePath: string, error: string, view: ViewState | null): TabState {
+  return {
+    id: crypto.randomUUID(),
+    sourcePath,
+    title: pathToTitle(sourcePath),
+    workflow: normalizeWorkflow({ nodes: [], links: [] }).workflow,
+    prompt: null,
+    metadata: {},
+    warnings: [],
+    schema: 'unknown',
+    view,
+    subgraphs: new Map(),
+    path: [],
+    missing: true,
+    error
+  }
+}
+
+/** Opens (or switches to) a tab for the file; resolves to the load error, if any. */
+async function openWorkflowInNewTab(sourcePath: string): Promise<string | null> {
   const existing = tabs.find((t) => t.sourcePath === sourcePath)
   if (existing) {
     activateTab(existing.id)
-    return
+    if (existing.error) await reloadTab(existing)
+    return existing.error
   }
 
   setStatus(`Loading: ${sourcePath}`)
   const payload = (await window.workflowViewer.readFile(sourcePath)) as WorkflowPayload
   if (!payload.ok) {
     setStatus(`Error: ${payload.error}`)
-    return
-  }
-
-  const tab: TabState = {
-    id: crypto.randomUUID(),
-    sourcePath: payload.sourcePath,
-    title: pathToTitle(payload.sourcePath),
-    workflow: payload.workflow,
-    view: null
+    return payload.error
   }
 
+  const tab = createTab(payload)
   tabs = [...tabs, tab]
+  watchOpenTabs()
   updateEmptyState()
   renderTabs()
   activateTab(tab.id)
+  window.workflowViewer.addRecentFile(tab.sourcePath)
+  return null
+}
+
+// Tabs come back in their order and with their views; unreadable files become placeholder tabs.
+async function restoreTab(saved: SessionTab) {
+  try {
+    const payload = (await window.workflowViewer.readFile(saved.sourcePath)) as WorkflowPayload
+    return payload.ok ? createTab(payload, saved.view) : createPlaceholderTab(saved.sourcePath, payload.error, saved.view)
+  } catch (error) {
+    return createPlaceholderTab(saved.sourcePath, error instanceof Error ? error.message : String(error), saved.view)
+  }
+}
+
+// Never rejects: files opened at startup wait for it.
+async function restoreSession() {
+  try {
+    const session = await window.workflowViewer.restoreSession()
+    if (!session) return
+    setSidebarVisible(session.sidebarVisible)
+    if (!session.tabs.length) return
+
+    setStatus('Restoring session…')
+    const restored = await Promise.all(session.tabs.map((saved) => restoreTab(saved)))
+    tabs = [...tabs, ...restored]
+    watchOpenTabs()
+    updateEmptyState()
+    renderTabs()
+    activateTab((restored[session.activeIndex] ?? restored[0]!).id)
+  } catch (error) {
+    setStatus(`Session not restored: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function saveSession() {
+  saveActiveTabView()
+  window.workflowViewer.saveSession({
+    tabs: tabs.map((tab) => ({ sourcePath: tab.sourcePath, view: tab.view })),
+    activeIndex: Math.max(tabs.findIndex((tab) => tab.id === activeTabId), 0),
+    sidebarVisible
+  })
+}
+
+const RELOAD_INDICATOR_MS = 1500
+
+const recentlyReloadedTabIds = new Set<string>()
+
+function watchOpenTabs() {
+  window.workflowViewer.watchFiles(Array.from(new Set(tabs.map((tab) => tab.sourcePath))))
+}
+
+function flashReloadedTab(id: string) {
+  recentlyReloadedTabIds.add(id)
+  renderTabs()
+  setTimeout(() => {
+    recentlyReloadedTabIds.delete(id)
+    renderTabs()
+  }, RELOAD_INDICATOR_MS)
+}
+
+// Subgraph levels are rebuilt from the new definitions; the path stops where one no longer exists.
+function rebuildSubgraphPath(tab: TabState) {
+  const path: SubgraphFrame[] = []
+  for (const frame of tab.path) {
+    const definition = tab.subgraphs.get(frame.type)
+    if (!definition) break
+    path.push({ ...frame, workflow: normalizeSubgraphLevel(definition, tab.subgraphs).workflow })
+  }
+  tab.path = path
+}
+
+// Keeps the tab's views and re-selects the selected node if it still exists.
+async function reloadTab(tab: TabState) {
+  const payload = (await window.workflowViewer.readFile(tab.sourcePath)) as WorkflowPayload
+  if (!tabs.includes(tab)) return
+  if (!payload.ok) {
+    setStatus(`Not reloaded: ${payload.error}`)
+    return
+  }
+
+  const isActive = tab.id === activeTabId
+  const selectedId = isActive && selectedNode ? selectedNode.id : null
+  if (isActive) saveActiveTabView()
+  Object.assign(tab, readTabContent(payload), { missing: false, error: null })
+  rebuildSubgraphPath(tab)
+
+  if (isActive) {
+    showActiveTabLevel(tab)
+    const node = ((graph as any)._nodes ?? []).find((candidate: any) => candidate?.id === selectedId)
+    if (node) (canvas as any).selectNode?.(node)
+    if (inventoryOpen) runInventory()
+  }
+  if (splitOpen && splitTabId === tab.id) loadSplitTab()
+  if (compareState && (isActive || compareState.baseTabId === tab.id)) runCompare()
+  flashReloadedTab(tab.id)
+  setStatus(`Reloaded: ${tab.sourcePath}`)
+}
+
+async function handleFileChange(change: FileChange) {
+  for (const tab of tabs.filter((t) => t.sourcePath === change.path)) {
+    if (change.kind === 'changed') {
+      await reloadTab(tab)
+      continue
+    }
+    tab.missing = true
+    renderTabs()
+    setStatus(`File deleted or renamed: ${tab.sourcePath}`)
+    const message = `"${tab.title}" was deleted or renamed on disk.\n\nClose its tab? Cancel keeps the last loaded version open.`
+    if (window.confirm(message)) closeTab(tab.id)
+  }
+}
+
+window.workflowViewer.onFileChanged((change) => handleFileChange(change))
+
+function applyReferenceFile(kind: ReferenceKind, payload: ReferencePayload) {
+  const label = kind === 'node-map' ? 'Custom node map' : 'Node definitions'
+  if (!payload.ok) {
+    setStatus(`${label} not loaded: ${payload.error}`)
+    return
+  }
+
+  if (kind === 'node-map') {
+    nodeMap = parseNodeMap(payload.data)
+    if (dependenciesOpen) runDependencies()
+    setStatus(`${label}: ${nodeMap.packByType.size} types from ${payload.sourcePath}`)
+    return
+  }
+  nodeDefinitions = parseObjectInfo(payload.data)
+  // Stub types refresh on every load, so reloading what's shown is enough; other tabs pick the
+  // definitions up when activated.
+  const tab = getActiveTab()
+  if (tab) showActiveTabLevel(tab)
+  if (splitOpen) loadSplitTab()
+  setStatus(`${label}: ${nodeDefinitions.size} types from ${payload.sourcePath}`)
+}
+
+async function loadReferenceFile(kind: ReferenceKind, sourcePath: string) {
+  applyReferenceFile(kind, await window.workflowViewer.readReferenceFile(kind, sourcePath))
+}
+
+async function chooseReferenceFile(kind: ReferenceKind) {
+  const path = await window.workflowViewer.openReferenceDialog(kind)
+  if (path) await loadReferenceFile(kind, path)
 }
 
 openBtn.addEventListener('click', async () => {
@@ -1077,6 +1689,8 @@ openBtn.addEventListener('click', async () => {
 })
 
 window.workflowViewer.onOpenPath(async (path) => {
+  // Files from the command line arrive at startup; let the restored tabs go first.
+  await sessionRestored
   await openWorkflowInNewTab(path)
 })
 
@@ -1092,7 +1706,10 @@ function setDragOver(active: boolean) {
 async function handleDroppedFiles(files: FileList | null | undefined) {
   if (!files || files.length === 0) return
   for (const file of Array.from(files)) {
-    await openWorkflowInNewTab((file as any).path ?? file.name)
+    const path = (file as any).path ?? file.name
+    const reference = REFERENCE_FILE_PATTERNS.find(([, pattern]) => pattern.test(pathToTitle(path)))
+    if (reference) await loadReferenceFile(reference[0], path)
+    else await openWorkflowInNewTab(path)
   }
 }
 
@@ -1116,13 +1733,168 @@ for (const el of [window, dropTarget] as const) {
   })
 }
 
-function resizeCanvasToContainer() {
-  const rect = dropTarget.getBoundingClientRect()
+let splitOpen = false
+let splitTabId: string | null = null
+// Node ids outlined because the node with the same id is selected in the other pane.
+let splitHighlightId: number | null = null
+let primaryHighlightId: number | null = null
+let viewSyncLocked = false
+let lastSyncedView: { offset: [number, number]; scale: number } | null = null
+
+const SPLIT_HIGHLIGHT_COLOR = '#58a6ff'
+
+function readView(target: LGraphCanvas) {
+  return { offset: [target.ds.offset[0], target.ds.offset[1]] as [number, number], scale: target.ds.scale }
+}
+
+function applyView(target: LGraphCanvas, view: { offset: [number, number]; scale: number }) {
+  target.ds.offset[0] = view.offset[0]
+  target.ds.offset[1] = view.offset[1]
+  target.ds.scale = view.scale
+  target.draw(true, true)
+}
+
+function sameView(a: { offset: [number, number]; scale: number }, b: { offset: [number, number]; scale: number }) {
+  return a.offset[0] === b.offset[0] && a.offset[1] === b.offset[1] && a.scale === b.scale
+}
+
+function startViewSync() {
+  viewSyncLocked = true
+  lastSyncedView = readView(canvas)
+  applyView(splitCanvas, lastSyncedView)
+}
+
+// While locked, copies the view of the pane that just moved to the other one.
+function syncLockedView(source: LGraphCanvas) {
+  if (!viewSyncLocked) return
+  const view = readView(source)
+  if (lastSyncedView && sameView(view, lastSyncedView)) return
+  lastSyncedView = view
+  if (source === splitCanvas) {
+    applyView(canvas, view)
+    saveActiveTabView()
+  } else applyView(splitCanvas, view)
+}
+
+// LiteGraph doesn't report view changes, so everything that moves the main view calls this.
+function handleViewChange() {
+  syncLockedView(canvas)
+  updateMinimap()
+}
+
+function stopViewSync() {
+  viewSyncLocked = false
+  lastSyncedView = null
+}
+
+function loadSplitTab() {
+  const tab = tabs.find((t) => t.id === splitTabId)
+  splitHighlightId = null
+  primaryHighlightId = null
+  splitGraph.clear()
+  if (tab) {
+    registerWorkflowTypeColors(tab.workflow)
+    ensureAllNodeTypes(tab.workflow, tab.subgraphs)
+    configureGraph(splitGraph, tab.workflow)
+    decorateGraphNodes(splitGraph)
+    if (splitLockInput.checked) applyView(splitCanvas, readView(canvas))
+    else {
+      try {
+        splitCanvas.fitNodes()
+      } catch {
+        splitCanvas.setZoom(1)
+      }
+    }
+  }
+  splitCanvas.draw(true, true)
+  canvas.draw(true, true)
+}
+
+function renderSplitTabOptions() {
+  if (!splitOpen) return
+  splitSelectEl.textContent = ''
+  for (const tab of tabs) splitSelectEl.append(new Option(tab.title, tab.id))
+  if (!tabs.some((t) => t.id === splitTabId)) {
+    splitTabId = (tabs.find((t) => t.id !== activeTabId) ?? tabs[0])?.id ?? null
+    loadSplitTab()
+  }
+  splitSelectEl.value = splitTabId ?? ''
+}
+
+function setSplitOpen(open: boolean) {
+  splitOpen = open
+  mainLayoutEl.classList.toggle('split-open', open)
+  splitPaneEl.classList.toggle('hidden', !open)
+  splitTabId = null
+  if (open) renderSplitTabOptions()
+  else {
+    splitGraph.clear()
+    splitHighlightId = null
+    primaryHighlightId = null
+  }
+  if (open && splitLockInput.checked) startViewSync()
+  else stopViewSync()
+  resizeCanvasToContainer()
+  updateMinimap()
+}
+
+function highlightInOtherPane(source: 'primary' | 'split', node: any) {
+  if (!splitOpen) return
+  const id = node ? Number(node.id) : null
+  if (source === 'primary') splitHighlightId = id
+  else primaryHighlightId = id
+  splitCanvas.draw(true, true)
+  canvas.draw(true, true)
+}
+
+function drawPaneHighlight(ctx: CanvasRenderingContext2D, target: LGraphCanvas, id: number | null) {
+  if (!splitOpen || id == null) return
+  ctx.save()
+  ctx.strokeStyle = SPLIT_HIGHLIGHT_COLOR
+  strokeNodeOutline(ctx, (target as any).graph?.getNodeById?.(id), true, target.ds.scale)
+  ctx.restore()
+}
+
+;(splitCanvas as any).onDrawForeground = (ctx: CanvasRenderingContext2D) => drawPaneHighlight(ctx, splitCanvas, splitHighlightId)
+
+// The split pane keeps LiteGraph's own wheel zoom and drag panning; both run before these listeners.
+splitCanvasEl.addEventListener('mousewheel', () => syncLockedView(splitCanvas))
+window.addEventListener('mousemove', () => {
+  if ((splitCanvas as any).dragging_canvas) syncLockedView(splitCanvas)
+})
+
+splitCanvas.onNodeSelected = (node: any) => {
+  showSelection(toNodeDetails(node))
+  highlightInOtherPane('split', node)
+}
+
+splitCanvas.onNodeDeselected = () => highlightInOtherPane('split', null)
+
+splitSelectEl.addEventListener('change', () => {
+  splitTabId = splitSelectEl.value || null
+  loadSplitTab()
+})
+
+splitLockInput.addEventListener('change', () => {
+  if (splitOpen && splitLockInput.checked) startViewSync()
+  else stopViewSync()
+})
+
+splitCloseBtn.addEventListener('click', () => setSplitOpen(false))
+splitBtn.addEventListener('click', () => setSplitOpen(!splitOpen))
+
+function resizeCanvasElement(target: LGraphCanvas, container: HTMLElement) {
+  const rect = container.getBoundingClientRect()
   const width = Math.max(1, Math.floor(rect.width))
   const height = Math.max(1, Math.floor(rect.height))
-  ;(canvas as any).__viewerDpr = getEffectiveDpr()
-  canvas.resize(Math.max(1, Math.floor(width * (canvas as any).__viewerDpr)), Math.max(1, Math.floor(height * (canvas as any).__viewerDpr)))
-  canvas.draw(true, true)
+  ;(target as any).__viewerDpr = getEffectiveDpr()
+  target.resize(Math.max(1, Math.floor(width * (target as any).__viewerDpr)), Math.max(1, Math.floor(height * (target as any).__viewerDpr)))
+  target.draw(true, true)
+}
+
+function resizeCanvasToContainer() {
+  resizeCanvasElement(canvas, dropTarget)
+  if (splitOpen) resizeCanvasElement(splitCanvas, splitPaneEl)
 }
 
 window.addEventListener('resize', resizeCanvasToContainer)
@@ -1137,6 +1909,7 @@ function zoomByFactor(factor: number, center?: { x: number; y: number }) {
   ;(canvas.ds as any).changeScale(nextScale, zoomCenter)
   ;(graph as any).change?.()
   canvas.draw(true, true)
+  handleViewChange()
   saveActiveTabView()
 }
 
@@ -1144,9 +1917,144 @@ function resetView() {
   canvas.setZoom(1)
   canvas.ds.offset = [0, 0]
   canvas.draw(true, true)
+  handleViewChange()
   saveActiveTabView()
 }
 
+const MINIMAP_WIDTH = 220
+const MINIMAP_HEIGHT = 150
+
+let minimapVisible = false
+let minimapScene: MinimapScene | null = null
+let minimapTransform: MinimapTransform | null = null
+// The graph's node list the scene was built from; loading a graph replaces it, and moving or
+// collapsing nodes clears it.
+let minimapSceneNodes: unknown = null
+let lastMinimapKey = ''
+// Offset from the pointer to the viewport centre while dragging, so grabbing the frame doesn't jump it.
+let minimapDrag: { dx: number; dy: number } | null = null
+
+function buildMinimapScene(): MinimapScene | null {
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  const subgraphs = getActiveTab()?.subgraphs
+  const nodes: MinimapScene['nodes'] = []
+  for (const node of ((graph as any)._nodes ?? []) as any[]) {
+    if (!isVec2(node?.pos) || !isVec2(node?.size)) continue
+    const collapsed = Boolean(node.flags?.collapsed)
+    const width = collapsed ? (node._collapsed_width ?? node.size[0]) : node.size[0]
+    const type = String(node.type ?? '')
+    nodes.push({
+      rect: [node.pos[0], node.pos[1] - titleHeight, width, (collapsed ? 0 : node.size[1]) + titleHeight],
+      color: stableTypeColor(subgraphs?.has(type) ? 'subgraph' : type)
+    })
+  }
+  const groups: MinimapScene['groups'] = []
+  for (const group of ((graph as any)._groups ?? []) as any[]) {
+    const bounding = group?._bounding
+    if (bounding?.length === 4) groups.push({ rect: Array.from(bounding) as MinimapRect, color: group.color || '#3f789e' })
+  }
+  const bounds = unionRects([...nodes, ...groups].map((item) => item.rect))
+  return bounds ? { bounds, nodes, groups } : null
+}
+
+function invalidateMinimap() {
+  minimapSceneNodes = null
+}
+
+// The part of the graph the main canvas shows, in graph coordinates.
+function getViewportRect(): MinimapRect {
+  const rect = dropTarget.getBoundingClientRect()
+  const scale = canvas.ds.scale
+  return [-canvas.ds.offset[0], -canvas.ds.offset[1], rect.width / scale, rect.height / scale]
+}
+
+// Redraws the minimap if the scene or the main view changed since the last call.
+function updateMinimap() {
+  if (!minimapVisible) return
+  const nodes = (graph as any)._nodes
+  if (nodes !== minimapSceneNodes) {
+    minimapSceneNodes = nodes
+    minimapScene = buildMinimapScene()
+    minimapTransform = minimapScene ? fitMinimap(minimapScene.bounds, MINIMAP_WIDTH, MINIMAP_HEIGHT) : null
+    lastMinimapKey = ''
+  }
+  minimapEl.classList.toggle('hidden', !minimapScene)
+  if (!minimapScene || !minimapTransform) return
+
+  const dpr = window.devicePixelRatio || 1
+  const viewport = getViewportRect()
+  const key = [...viewport, dpr].join(',')
+  if (key === lastMinimapKey) return
+  lastMinimapKey = key
+  if (minimapCanvasEl.width !== Math.round(MINIMAP_WIDTH * dpr)) {
+    minimapCanvasEl.width = Math.round(MINIMAP_WIDTH * dpr)
+    minimapCanvasEl.height = Math.round(MINIMAP_HEIGHT * dpr)
+  }
+  drawMinimap(minimapCanvasEl, minimapScene, viewport, minimapTransform, dpr)
+}
+
+function setMinimapVisible(visible: boolean) {
+  minimapVisible = visible
+  if (visible) updateMinimap()
+  else {
+    minimapDrag = null
+    invalidateMinimap()
+    minimapEl.classList.add('hidden')
+  }
+}
+
+function centerViewOn(x: number, y: number) {
+  const rect = dropTarget.getBoundingClientRect()
+  const scale = canvas.ds.scale
+  canvas.ds.offset[0] = rect.width / (2 * scale) - x
+  canvas.ds.offset[1] = rect.height / (2 * scale) - y
+  canvas.draw(true, true)
+  handleViewChange()
+}
+
+function minimapPointerToGraph(event: PointerEvent) {
+  const rect = minimapCanvasEl.getBoundingClientRect()
+  return minimapToGraph(minimapTransform!, event.clientX - rect.left, event.clientY - rect.top)
+}
+
+minimapCanvasEl.style.width = `${MINIMAP_WIDTH}px`
+minimapCanvasEl.style.height = `${MINIMAP_HEIGHT}px`
+
+minimapCanvasEl.addEventListener('pointerdown', (event) => {
+  if (!minimapTransform || event.button !== 0) return
+  event.preventDefault()
+  minimapCanvasEl.setPointerCapture(event.pointerId)
+  const [x, y] = minimapPointerToGraph(event)
+  const [vx, vy, vw, vh] = getViewportRect()
+  const inside = x >= vx && x <= vx + vw && y >= vy && y <= vy + vh
+  minimapDrag = inside ? { dx: x - (vx + vw / 2), dy: y - (vy + vh / 2) } : { dx: 0, dy: 0 }
+  centerViewOn(x - minimapDrag.dx, y - minimapDrag.dy)
+})
+
+minimapCanvasEl.addEventListener('pointermove', (event) => {
+  if (!minimapDrag || !minimapTransform) return
+  const [x, y] = minimapPointerToGraph(event)
+  centerViewOn(x - minimapDrag.dx, y - minimapDrag.dy)
+})
+
+for (const type of ['pointerup', 'pointercancel'] as const) {
+  minimapCanvasEl.addEventListener(type, () => {
+    if (!minimapDrag) return
+    minimapDrag = null
+    saveActiveTabView()
+  })
+}
+
+minimapBtn.addEventListener('click', () => setMinimapVisible(!minimapVisible))
+
+// Collapsing a node (title click or context menu) ends in LiteGraph's afterChange.
+;(graph as any).onAfterChange = () => {
+  invalidateMinimap()
+  updateMinimap()
+}
+
+window.addEventListener('resize', updateMinimap)
+
 // Trackpad-friendly zoom: LiteGraph uses wheelDeltaY/detail which can be missing on touchpads.
 canvasEl.addEventListener(
   'wheel',
@@ -1181,7 +2089,7 @@ function isVec2(value: any): value is { 0: number; 1: number } {
   return Boolean(value && typeof value[0] === 'number' && typeof value[1] === 'number')
 }
 
-function getNodeUnderPointer(event: PointerEvent) {
+function getNodeUnderPointer(event: MouseEvent) {
   const canvasAny = canvas as any
   const graphAny = graph as any
   if (typeof canvasAny.convertEventToCanvasOffset !== 'function') return null
@@ -1303,6 +2211,7 @@ canvasEl.addEventListener(
       canvas.ds.offset[0] = activeDrag.offsetX + dx / canvas.ds.scale
       canvas.ds.offset[1] = activeDrag.offsetY + dy / canvas.ds.scale
       canvas.draw(true, true)
+      handleViewChange()
       saveActiveTabView()
     } else {
       for (const item of activeDrag.nodes) {
@@ -1313,6 +2222,8 @@ canvasEl.addEventListener(
       }
       ;(graph as any).change?.()
       canvas.draw(true, true)
+      invalidateMinimap()
+      updateMinimap()
     }
 
     event.preventDefault()
@@ -1448,6 +2359,13 @@ canvasEl.addEventListener(
   true
 )
 
+// LiteGraph's own double-click detection never fires for primary pointers, so listen natively.
+canvasEl.addEventListener('dblclick', (event) => {
+  if (event.button !== 0 || spaceDown) return
+  const node = getNodeUnderPointer(event)
+  if (node && openSubgraphNode(node)) event.preventDefault()
+})
+
 canvasEl.addEventListener('contextmenu', (event) => {
   if (activeDrag?.mode === 'pan') {
     event.preventDefault()
@@ -1455,27 +2373,1191 @@ canvasEl.addEventListener('contextmenu', (event) => {
   }
 })
 
-fitBtn.addEventListener('click', () => {
-  fitToContent()
-  saveActiveTabView()
-})
+let searchOpen = false
+let searchMatches: SearchMatch[] = []
+let searchIndex = -1
 
-resetBtn.addEventListener('click', () => resetView())
+function centerOnNode(node: any) {
+  if (!isVec2(node?.pos) || !isVec2(node?.size)) return
+  const rect = dropTarget.getBoundingClientRect()
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  const scale = canvas.ds.scale
+  canvas.ds.offset[0] = rect.width / (2 * scale) - (node.pos[0] + node.size[0] / 2)
+  canvas.ds.offset[1] = rect.height / (2 * scale) - (node.pos[1] + (node.size[1] - titleHeight) / 2)
+  canvas.draw(true, true)
+  handleViewChange()
+}
 
-toggleSidebarBtn.addEventListener('click', () => setSidebarVisible(!sidebarVisible))
+function renderSearchResults() {
+  searchResultsEl.textContent = ''
+  const query = searchInputEl.value.trim()
+  searchCountEl.textContent = !query ? '' : searchMatches.length ? `${searchIndex + 1}/${searchMatches.length}` : 'No matches'
 
-window.workflowViewer.onCommand((command) => {
-  if (command === 'zoom-in') zoomByFactor(ZOOM_STEP)
-  else if (command === 'zoom-out') zoomByFactor(1 / ZOOM_STEP)
+  searchMatches.slice(0, SEARCH_MAX_RESULTS).forEach((match, index) => {
+    const itemEl = document.createElement('li')
+    itemEl.className = `panel-result${index === searchIndex ? ' active' : ''}`
+    itemEl.addEventListener('click', () => jumpToSearchMatch(index))
+
+    const titleEl = document.createElement('div')
+    titleEl.className = 'panel-result-title'
+    titleEl.textContent = `#${match.nodeId} ${match.title || match.type}`
+
+    const detailEl = document.createElement('div')
+    detailEl.className = 'panel-result-detail'
+    detailEl.textContent = match.field === 'title' ? match.type : `${match.field}: ${match.snippet}`
+
+    itemEl.append(titleEl, detailEl)
+    searchResultsEl.append(itemEl)
+  })
+}
+
+function runSearch({ jump = true }: { jump?: boolean } = {}) {
+  const nodes: any[] = (graph as any)._nodes ?? []
+  searchMatches = nodes
+    .map((node) => matchNode(node, getOverlayParams(node), searchInputEl.value))
+    .filter((match): match is SearchMatch => Boolean(match))
+  searchIndex = searchMatches.length ? 0 : -1
+  renderSearchResults()
+  if (jump && searchIndex >= 0) jumpToSearchMatch(searchIndex)
+  else canvas.draw(true, true)
+}
+
+function jumpToSearchMatch(index: number) {
+  const match = searchMatches[index]
+  const node = match ? (graph as any).getNodeById?.(match.nodeId) : null
+  if (!node) return
+  searchIndex = index
+  centerOnNode(node)
+  ;(canvas as any).selectNode?.(node)
+  saveActiveTabView()
+  renderSearchResults()
+  searchResultsEl.children[index]?.scrollIntoView({ block: 'nearest' })
+}
+
+function cycleSearchMatch(direction: 1 | -1) {
+  if (!searchMatches.length) return
+  jumpToSearchMatch((searchIndex + direction + searchMatches.length) % searchMatches.length)
+}
+
+function openSearch() {
+  if (compareState) closeCompare()
+  if (dependenciesOpen) closeDependencies()
+  if (inventoryOpen) closeInventory()
+  if (catalogOpen) closeCatalog()
+  closeExport()
+  searchOpen = true
+  searchPanelEl.classList.remove('hidden')
+  searchInputEl.focus()
+  searchInputEl.select()
+  runSearch({ jump: false })
+}
+
+function closeSearch() {
+  searchOpen = false
+  searchPanelEl.classList.add('hidden')
+  searchMatches = []
+  searchIndex = -1
+  canvas.draw(true, true)
+  canvasEl.focus()
+}
+
+// `scale` is that of the canvas being drawn, so the outline keeps its width on screen.
+function strokeNodeOutline(ctx: CanvasRenderingContext2D, node: any, current: boolean, scale = canvas.ds.scale) {
+  if (!isVec2(node?.pos) || !isVec2(node?.size)) return
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  ctx.globalAlpha = current ? 1 : 0.6
+  ctx.lineWidth = (current ? 4 : 2) / scale
+  const x = node.pos[0] - 6
+  const y = node.pos[1] - titleHeight - 6
+  const w = node.size[0] + 12
+  const h = node.size[1] + titleHeight + 12
+  ctx.beginPath()
+  if (typeof (ctx as any).roundRect === 'function') (ctx as any).roundRect(x, y, w, h, 12)
+  else ctx.rect(x, y, w, h)
+  ctx.stroke()
+}
+
+// Outlines every match while the panel is open; the current one is drawn stronger.
+function drawSearchHighlights(ctx: CanvasRenderingContext2D) {
+  if (!searchOpen || !searchMatches.length) return
+  ctx.save()
+  ctx.strokeStyle = SEARCH_HIGHLIGHT_COLOR
+  searchMatches.forEach((match, index) => strokeNodeOutline(ctx, (graph as any).getNodeById?.(match.nodeId), index === searchIndex))
+  ctx.restore()
+}
+
+searchInputEl.addEventListener('input', () => runSearch())
+
+searchInputEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') {
+    event.preventDefault()
+    cycleSearchMatch(event.shiftKey ? -1 : 1)
+  } else if (event.key === 'Escape') {
+    event.preventDefault()
+    closeSearch()
+  }
+})
+
+searchCloseBtn.addEventListener('click', () => closeSearch())
+
+findBtn.addEventListener('click', () => openSearch())
+
+// The active tab is the newer version; `baseTabId` is the tab it is compared against.
+let compareState: { tabId: string; baseTabId: string | null; diff: WorkflowDiff | null; index: number } | null = null
+
+function formatDiffValue(value: unknown) {
+  return value == null ? '∅' : formatParamValue(value)
+}
+
+function describeDiffEntry(entry: NodeDiff) {
+  const node = entry.node ?? entry.baseNode
+  const sign = entry.kind === 'added' ? '+' : entry.kind === 'removed' ? '−' : '~'
+  return `${sign} #${node.id} ${node.title || node.type}`
+}
+
+function renderCompareResults() {
+  compareResultsEl.textContent = ''
+  const diff = compareState?.diff
+  if (!diff) {
+    compareCountEl.textContent = ''
+    return
+  }
+
+  const counts = { added: 0, removed: 0, modified: 0 }
+  for (const entry of diff.entries) counts[entry.kind]++
+  const position = diff.entries.length ? `${compareState!.index + 1}/${diff.entries.length} · ` : ''
+  compareCountEl.textContent = diff.entries.length
+    ? `${position}+${counts.added} −${counts.removed} ~${counts.modified}`
+    : `No differences (${diff.unchanged} nodes)`
+
+  diff.entries.forEach((entry, index) => {
+    const itemEl = document.createElement('li')
+    itemEl.className = `panel-result ${entry.kind}${index === compareState!.index ? ' active' : ''}`
+    itemEl.addEventListener('click', () => jumpToDiffEntry(index))
+
+    const titleEl = document.createElement('div')
+    titleEl.className = 'panel-result-title'
+    titleEl.textContent = describeDiffEntry(entry)
+    itemEl.append(titleEl)
+
+    for (const change of entry.changes.slice(0, DIFF_MAX_CHANGES_SHOWN)) {
+      const detailEl = document.createElement('div')
+      detailEl.className = 'panel-result-detail'
+      detailEl.textContent = `${change.field}: ${formatDiffValue(change.before)} → ${formatDiffValue(change.after)}`
+      itemEl.append(detailEl)
+    }
+    if (entry.changes.length > DIFF_MAX_CHANGES_SHOWN) {
+      const moreEl = document.createElement('div')
+      moreEl.className = 'panel-result-detail'
+      moreEl.textContent = `… ${entry.changes.length - DIFF_MAX_CHANGES_SHOWN} more`
+      itemEl.append(moreEl)
+    }
+    compareResultsEl.append(itemEl)
+  })
+}
+
+function runCompare() {
+  if (!compareState) return
+  const tab = getActiveTab()
+  const base = tabs.find((t) => t.id === compareSelectEl.value) ?? null
+  compareState.baseTabId = base?.id ?? null
+  compareState.diff = tab && base ? diffWorkflows(base.workflow, tab.workflow, { widgetLabels: getWidgetLabels }) : null
+  compareState.index = compareState.diff?.entries.length ? 0 : -1
+  renderCompareResults()
+  if (compareState.index >= 0) jumpToDiffEntry(compareState.index)
+  else canvas.draw(true, true)
+}
+
+function jumpToDiffEntry(index: number) {
+  const entry = compareState?.diff?.entries[index]
+  if (!entry) return
+  compareState!.index = index
+  if (entry.node) {
+    const node = (graph as any).getNodeById?.(entry.node.id)
+    centerOnNode(node)
+    if (node) (canvas as any).selectNode?.(node)
+  } else {
+    // Removed nodes only exist in the other tab; show where they used to be.
+    ;(canvas as any).deselectAllNodes?.()
+    centerOnNode(entry.baseNode)
+    showSelection(toNodeDetails(entry.baseNode))
+  }
+  saveActiveTabView()
+  renderCompareResults()
+  compareResultsEl.children[index]?.scrollIntoView({ block: 'nearest' })
+}
+
+function cycleDiffEntry(direction: 1 | -1) {
+  const count = compareState?.diff?.entries.length ?? 0
+  if (!count) return
+  jumpToDiffEntry((compareState!.index + direction + count) % count)
+}
+
+function openCompare() {
+  const tab = getActiveTab()
+  if (!tab) return
+  if (searchOpen) closeSearch()
+  if (dependenciesOpen) closeDependencies()
+  if (inventoryOpen) closeInventory()
+  if (catalogOpen) closeCatalog()
+  closeExport()
+  // Differences are highlighted on the top-level graph.
+  if (tab.path.length) navigateToDepth(0)
+
+  compareSelectEl.textContent = ''
+  const others = tabs.filter((t) => t.id !== tab.id)
+  for (const other of others) compareSelectEl.append(new Option(other.title, other.id))
+  if (!others.length) compareSelectEl.append(new Option('Open another workflow to compare', ''))
+  compareSelectEl.disabled = !others.length
+  const previous = compareState?.tabId === tab.id ? compareState.baseTabId : null
+  if (previous && others.some((t) => t.id === previous)) compareSelectEl.value = previous
+
+  compareState = { tabId: tab.id, baseTabId: null, diff: null, index: -1 }
+  comparePanelEl.classList.remove('hidden')
+  runCompare()
+  compareSelectEl.focus()
+}
+
+function closeCompare() {
+  compareState = null
+  comparePanelEl.classList.add('hidden')
+  canvas.draw(true, true)
+}
+
+// Added/modified nodes get a colored outline; removed ones a dashed ghost at their old place.
+function drawDiffHighlights(ctx: CanvasRenderingContext2D) {
+  const diff = compareState?.diff
+  if (!diff || compareState!.tabId !== activeTabId || getActiveTab()?.path.length) return
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  ctx.save()
+  diff.entries.forEach((entry, index) => {
+    const current = index === compareState!.index
+    ctx.strokeStyle = DIFF_COLORS[entry.kind]
+    if (entry.node) {
+      strokeNodeOutline(ctx, (graph as any).getNodeById?.(entry.node.id), current)
+      return
+    }
+    ctx.setLineDash([8 / canvas.ds.scale, 6 / canvas.ds.scale])
+    strokeNodeOutline(ctx, entry.baseNode, current)
+    ctx.setLineDash([])
+    if (isVec2(entry.baseNode?.pos)) {
+      ctx.fillStyle = DIFF_COLORS.removed
+      ctx.font = PARAM_FONT
+      ctx.fillText(`Removed: ${entry.baseNode.title || entry.baseNode.type}`, entry.baseNode.pos[0], entry.baseNode.pos[1] - titleHeight - 12)
+    }
+  })
+  ctx.restore()
+}
+
+;(canvas as any).onDrawForeground = (ctx: CanvasRenderingContext2D) => {
+  if (exportingImage) return
+  drawPaneHighlight(ctx, canvas, primaryHighlightId)
+  drawDiffHighlights(ctx)
+  drawSearchHighlights(ctx)
+  drawDependencyHighlights(ctx)
+}
+
+compareSelectEl.addEventListener('change', () => runCompare())
+
+comparePanelEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') {
+    event.preventDefault()
+    cycleDiffEntry(event.shiftKey ? -1 : 1)
+  } else if (event.key === 'Escape') {
+    event.preventDefault()
+    closeCompare()
+  }
+})
+
+comparePrevBtn.addEventListener('click', () => cycleDiffEntry(-1))
+compareNextBtn.addEventListener('click', () => cycleDiffEntry(1))
+compareCloseBtn.addEventListener('click', () => closeCompare())
+compareBtn.addEventListener('click', () => openCompare())
+
+let dependenciesOpen = false
+let dependencies: NodeDependency[] = []
+let unknownTypes = new Set<string>()
+// Advances on each click so repeated clicks visit every node of the listed types.
+let dependencyCursor = 0
+
+function describeDependencyTypes(entries: NodeDependency[]) {
+  return entries.map((entry) => (entry.count > 1 ? `${entry.type} ×${entry.count}` : entry.type)).join(', ')
+}
+
+function createPanelResultItem(className: string, title: string, details: string[], onClick: (() => void) | null) {
+  const itemEl = document.createElement('li')
+  itemEl.className = `panel-result ${className}`
+  if (onClick) itemEl.addEventListener('click', onClick)
+
+  const titleEl = document.createElement('div')
+  titleEl.className = 'panel-result-title'
+  titleEl.textContent = title
+  itemEl.append(titleEl)
+  for (const detail of details) {
+    const detailEl = document.createElement('div')
+    detailEl.className = 'panel-result-detail wrap'
+    detailEl.textContent = detail
+    itemEl.append(detailEl)
+  }
+  return itemEl
+}
+
+function renderDependencies() {
+  depsResultsEl.textContent = ''
+  const core = dependencies.filter((entry) => entry.status === 'core')
+  const unknown = dependencies.filter((entry) => entry.status === 'unknown')
+  const packs = new Map<string, NodeDependency[]>()
+  for (const entry of dependencies) {
+    if (entry.status !== 'custom') continue
+    const key = entry.pack!.repo || entry.pack!.name
+    packs.set(key, [...(packs.get(key) ?? []), entry])
+  }
+  const customCount = dependencies.length - core.length - unknown.length
+  depsCountEl.textContent = dependencies.length
+    ? `${core.length} core · ${customCount} custom in ${packs.size} pack${packs.size === 1 ? '' : 's'} · ${unknown.length} unknown`
+    : 'No nodes'
+
+  for (const entry of unknown) {
+    const title = entry.count > 1 ? `${entry.type} ×${entry.count}` : entry.type
+    const hint = nodeMap ? 'Not found in object_info, the node map or the workflow' : 'Unknown — load a node map to look it up'
+    depsResultsEl.append(createPanelResultItem('unknown', title, [hint], () => jumpToDependency([entry.type])))
+  }
+  for (const entries of packs.values()) {
+    const pack = entries[0]!.pack!
+    const details = [pack.repo || `custom_nodes/${pack.name}`, describeDependencyTypes(entries)]
+    const types = entries.map((entry) => entry.type)
+    depsResultsEl.append(createPanelResultItem('custom', pack.name, details, () => jumpToDependency(types)))
+  }
+  if (core.length) depsResultsEl.append(createPanelResultItem('core', `Core · ${core.length} types`, [describeDependencyTypes(core)], null))
+}
+
+function runDependencies() {
+  const tab = getActiveTab()
+  dependencies = tab ? collectDependencies(tab.workflow, { subgraphs: tab.subgraphs, definitions: nodeDefinitions, nodeMap }) : []
+  unknownTypes = new Set(dependencies.filter((entry) => entry.status === 'unknown').map((entry) => entry.type))
+  dependencyCursor = 0
+  renderDependencies()
+  canvas.draw(true, true)
+}
+
+function jumpToDependency(types: string[]) {
+  const wanted = new Set(types)
+  const nodes = ((graph as any)._nodes ?? []).filter((node: any) => wanted.has(node?.type))
+  if (!nodes.length) {
+    setStatus(`${types.join(', ')}: not on this level (used inside a subgraph)`)
+    return
+  }
+  const node = nodes[dependencyCursor++ % nodes.length]
+  centerOnNode(node)
+  ;(canvas as any).selectNode?.(node)
+  saveActiveTabView()
+}
+
+function openDependencies() {
+  if (!getActiveTab()) return
+  if (searchOpen) closeSearch()
+  if (compareState) closeCompare()
+  if (inventoryOpen) closeInventory()
+  if (catalogOpen) closeCatalog()
+  closeExport()
+  dependenciesOpen = true
+  depsPanelEl.classList.remove('hidden')
+  runDependencies()
+  depsPanelEl.focus()
+}
+
+function closeDependencies() {
+  dependenciesOpen = false
+  depsPanelEl.classList.add('hidden')
+  canvas.draw(true, true)
+}
+
+// Nodes no mapping knows about stay outlined while the panel is open.
+function drawDependencyHighlights(ctx: CanvasRenderingContext2D) {
+  if (!dependenciesOpen || !unknownTypes.size) return
+  ctx.save()
+  ctx.strokeStyle = DEPENDENCY_UNKNOWN_COLOR
+  for (const node of (graph as any)._nodes ?? []) {
+    if (unknownTypes.has(node?.type)) strokeNodeOutline(ctx, node, true)
+  }
+  ctx.restore()
+}
+
+depsPanelEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') {
+    event.preventDefault()
+    closeDependencies()
+  }
+})
+
+depsMapBtn.addEventListener('click', () => chooseReferenceFile('node-map'))
+depsCloseBtn.addEventListener('click', () => closeDependencies())
+depsBtn.addEventListener('click', () => openDependencies())
+
+let inventoryOpen = false
+let inventoryTabId: string | null = null
+let assets: AssetReference[] = []
+let assetChecks = new Map<string, AssetCheckResult>()
+let modelsDir: string | null = null
+// Bumped per verification so a slow folder scan cannot overwrite a newer one.
+let inventoryRun = 0
+
+function assetKey(kind: string, name: string) {
+  return `${kind}\u0000${name}`
+}
+
+function describeAssetUses(asset: AssetReference) {
+  return asset.uses.map((use) => `#${use.nodeId} ${use.title}${use.nested ? ' (in subgraph)' : ''}`).join(', ')
+}
+
+function renderInventory() {
+  assetsResultsEl.textContent = ''
+  const missing = assets.filter((asset) => assetChecks.get(assetKey(asset.kind, asset.name))?.present === false).length
+  const verified = modelsDir && assetChecks.size ? ` · ${missing} missing` : ''
+  assetsCountEl.textContent = assets.length ? `${assets.length} file${assets.length === 1 ? '' : 's'}${verified}` : 'No files referenced'
+  assetsDirEl.textContent = modelsDir ?? 'Choose a models folder to check which files exist'
+  assetsDirEl.title = modelsDir ?? ''
+
+  for (const kind of Object.keys(ASSET_KIND_LABELS) as AssetKind[]) {
+    const entries = assets.filter((asset) => asset.kind === kind)
+    if (!entries.length) continue
+    const headingEl = document.createElement('li')
+    headingEl.className = 'panel-group'
+    headingEl.textContent = `${ASSET_KIND_LABELS[kind]} (${entries.length})`
+    assetsResultsEl.append(headingEl)
+
+    for (const asset of entries) {
+      const check = assetChecks.get(assetKey(asset.kind, asset.name))
+      const details = [describeAssetUses(asset)]
+      if (check && !check.present) {
+        details.push(check.suggestions.length ? `Similar: ${check.suggestions.join(', ')}` : `Not found in ${ASSET_KIND_FOLDERS[kind].join(', ')}`)
+      }
+      const status = check ? (check.present ? 'present' : 'missing') : ''
+      const title = check ? `${check.present ? '✓' : '✗'} ${asset.name}` : asset.name
+      assetsResultsEl.append(createPanelResultItem(status, title, details, () => jumpToAsset(asset)))
+    }
+  }
+}
+
+async function verifyInventory() {
+  if (!modelsDir || !assets.length) return
+  const run = ++inventoryRun
+  const requests = assets.map((asset) => ({ kind: asset.kind, name: asset.name, folders: ASSET_KIND_FOLDERS[asset.kind] }))
+  const results = await window.workflowViewer.verifyAssets(modelsDir, requests)
+  if (run !== inventoryRun || !inventoryOpen) return
+  assetChecks = new Map(results.map((result) => [assetKey(result.kind, result.name), result]))
+  renderInventory()
+}
+
+function runInventory() {
+  const tab = getActiveTab()
+  inventoryTabId = tab?.id ?? null
+  assets = tab ? collectAssets(tab.workflow, { subgraphs: tab.subgraphs, widgetLabels: getWidgetLabels }) : []
+  assetChecks = new Map()
+  renderInventory()
+  verifyInventory()
+}
+
+// Uses inside subgraphs carry ids local to the definition, so they only match while it is open.
+function jumpToAsset(asset: AssetReference) {
+  const nested = Boolean(getActiveTab()?.path.length)
+  const nodes = ((graph as any)._nodes ?? []).filter((node: any) =>
+    asset.uses.some((use) => use.nested === nested && use.nodeId === node?.id && use.type === node?.type)
+  )
+  if (!nodes.length) {
+    setStatus(`${asset.name}: not used on this level`)
+    return
+  }
+  const current = nodes.indexOf((canvas as any).current_node)
+  const node = nodes[(current + 1) % nodes.length]
+  centerOnNode(node)
+  ;(canvas as any).selectNode?.(node)
+  saveActiveTabView()
+}
+
+function openInventory() {
+  if (!getActiveTab()) return
+  if (searchOpen) closeSearch()
+  if (compareState) closeCompare()
+  if (dependenciesOpen) closeDependencies()
+  if (catalogOpen) closeCatalog()
+  closeExport()
+  inventoryOpen = true
+  assetsPanelEl.classList.remove('hidden')
+  runInventory()
+  assetsPanelEl.focus()
+}
+
+function closeInventory() {
+  inventoryOpen = false
+  inventoryTabId = null
+  assetsPanelEl.classList.add('hidden')
+}
+
+async function chooseModelsDir() {
+  const dir = await window.workflowViewer.chooseModelsDir()
+  if (!dir) return
+  modelsDir = dir
+  setStatus(`Models folder: ${dir}`)
+  if (!inventoryOpen) return
+  assetChecks = new Map()
+  renderInventory()
+  await verifyInventory()
+}
+
+assetsPanelEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') {
+    event.preventDefault()
+    closeInventory()
+  }
+})
+
+assetsDirBtn.addEventListener('click', async () => await chooseModelsDir())
+assetsCloseBtn.addEventListener('click', () => closeInventory())
+assetsBtn.addEventListener('click', () => openInventory())
+
+const LIBRARY_BATCH_SIZE = 12
+const LIBRARY_PREVIEW_WIDTH = 320
+const LIBRARY_PREVIEW_HEIGHT = 200
+
+let libraryOpen = false
+let libraryRoot: string | null = null
+// Bumped per scan so summaries still arriving for a previous folder are dropped.
+let libraryRun = 0
+let libraryQueue: string[] = []
+let librarySummarizing = false
+const libraryCards = new Map<string, HTMLLIElement>()
+
+// Files are only read once their card scrolls near the viewport.
+const libraryObserver = new IntersectionObserver(
+  (entries) => {
+    for (const entry of entries) {
+      if (!entry.isIntersecting) continue
+      libraryObserver.unobserve(entry.target)
+      libraryQueue.push((entry.target as HTMLElement).dataset.path!)
+    }
+    summarizeLibraryQueue()
+  },
+  { root: libraryGridEl, rootMargin: '200px' }
+)
+
+function formatLibraryDate(mtimeMs: number) {
+  return new Date(mtimeMs).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+function createLibraryCard(entry: LibraryEntry) {
+  const cardEl = document.createElement('li')
+  cardEl.className = 'library-card'
+  cardEl.dataset.path = entry.path
+  cardEl.title = entry.relativePath
+  const thumbEl = document.createElement('div')
+  thumbEl.className = 'library-thumb'
+  const nameEl = document.createElement('div')
+  nameEl.className = 'library-name'
+  nameEl.textContent = entry.name
+  const metaEl = document.createElement('div')
+  metaEl.className = 'library-meta'
+  metaEl.textContent = formatLibraryDate(entry.mtimeMs)
+  cardEl.append(thumbEl, nameEl, metaEl)
+  cardEl.addEventListener('click', async () => {
+    if (cardEl.classList.contains('invalid')) return
+    closeLibrary()
+    await openWorkflowInNewTab(entry.path)
+  })
+  return cardEl
+}
+
+function renderLibrarySummary(summary: LibrarySummary) {
+  const cardEl = libraryCards.get(summary.path)
+  if (!cardEl) return
+  const thumbEl = cardEl.querySelector('.library-thumb')!
+  const metaEl = cardEl.querySelector('.library-meta')!
+  const date = metaEl.textContent ?? ''
+  if (!summary.ok) {
+    cardEl.classList.add('invalid')
+    cardEl.title = `${cardEl.title}\n${summary.error}`
+    metaEl.textContent = `No workflow · ${date}`
+    return
+  }
+
+  if (summary.thumbnail) {
+    const imgEl = document.createElement('img')
+    imgEl.src = summary.thumbnail
+    imgEl.alt = ''
+    thumbEl.append(imgEl)
+  } else if (summary.preview) {
+    const previewEl = document.createElement('canvas')
+    previewEl.width = LIBRARY_PREVIEW_WIDTH
+    previewEl.height = LIBRARY_PREVIEW_HEIGHT
+    drawWorkflowPreview(previewEl, summary.preview)
+    thumbEl.append(previewEl)
+  }
+  metaEl.textContent = `${summary.nodeCount} node${summary.nodeCount === 1 ? '' : 's'} · ${date}`
+  if (!summary.model) return
+  const modelEl = document.createElement('div')
+  modelEl.className = 'library-meta'
+  modelEl.textContent = summary.model
+  cardEl.append(modelEl)
+}
+
+async function summarizeLibraryQueue() {
+  if (librarySummarizing) return
+  librarySummarizing = true
+  const run = libraryRun
+  while (libraryQueue.length && run === libraryRun) {
+    const batch = libraryQueue.splice(0, LIBRARY_BATCH_SIZE)
+    const summaries = await window.workflowViewer.summarizeLibraryFiles(batch)
+    if (run !== libraryRun) break
+    summaries.forEach(renderLibrarySummary)
+  }
+  librarySummarizing = false
+  // A newer scan queued files while the previous batch was in flight.
+  if (libraryQueue.length) summarizeLibraryQueue()
+}
+
+async function scanLibrary(root: string) {
+  const run = ++libraryRun
+  libraryRoot = root
+  libraryQueue = []
+  libraryObserver.disconnect()
+  libraryCards.clear()
+  libraryGridEl.textContent = ''
+  libraryDirEl.textContent = root
+  libraryDirEl.title = root
+  libraryCountEl.textContent = 'Scanning…'
+
+  const entries = await window.workflowViewer.scanLibrary(root)
+  if (run !== libraryRun) return
+  libraryCountEl.textContent = `${entries.length} file${entries.length === 1 ? '' : 's'}`
+  for (const entry of entries) {
+    const cardEl = createLibraryCard(entry)
+    libraryCards.set(entry.path, cardEl)
+    libraryGridEl.append(cardEl)
+    libraryObserver.observe(cardEl)
+  }
+  setStatus(`Library: ${entries.length} file${entries.length === 1 ? '' : 's'} in ${root}`)
+}
+
+async function chooseLibraryFolder() {
+  const root = await window.workflowViewer.chooseLibraryFolder()
+  if (!root) return
+  openLibrary()
+  await scanLibrary(root)
+}
+
+function openLibrary() {
+  libraryOpen = true
+  libraryEl.classList.remove('hidden')
+  libraryEl.focus()
+}
+
+function closeLibrary() {
+  libraryOpen = false
+  libraryEl.classList.add('hidden')
+}
+
+libraryEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') {
+    event.preventDefault()
+    closeLibrary()
+  }
+})
+
+libraryDirBtn.addEventListener('click', async () => await chooseLibraryFolder())
+libraryCloseBtn.addEventListener('click', () => closeLibrary())
+libraryBtn.addEventListener('click', async () => {
+  if (libraryOpen) closeLibrary()
+  else if (libraryRoot) openLibrary()
+  else await chooseLibraryFolder()
+})
+
+let catalogOpen = false
+let catalogStatus: CatalogStatus | null = null
+let catalogResults: CatalogResult[] = []
+// Bumped per query so a slow answer cannot replace the results of a newer one.
+let catalogRun = 0
+
+function renderCatalogFolders() {
+  catalogFoldersEl.textContent = ''
+  const status = catalogStatus
+  if (!status?.folders.length) {
+    catalogStatusEl.textContent = 'Add a folder to build the index'
+    return
+  }
+  const state = status.indexing ? ' · updating…' : status.error ? ` · update failed: ${status.error}` : ''
+  catalogStatusEl.textContent = `${status.files} file${status.files === 1 ? '' : 's'} indexed${state}`
+  for (const folder of status.folders) {
+    const itemEl = createPanelResultItem('catalog-folder', folder, [], null)
+    itemEl.title = folder
+    const removeBtn = document.createElement('button')
+    removeBtn.className = 'btn btn-small'
+    removeBtn.textContent = '×'
+    removeBtn.title = 'Remove from the index'
+    removeBtn.addEventListener('click', async () => {
+      catalogStatus = await window.workflowViewer.removeCatalogFolder(folder)
+      renderCatalogFolders()
+    })
+    itemEl.append(removeBtn)
+    catalogFoldersEl.append(itemEl)
+  }
+}
+
+function renderCatalogResults() {
+  catalogResultsEl.textContent = ''
+  const query = catalogInputEl.value.trim()
+  catalogCountEl.textContent = query ? `${catalogResults.length} workflow${catalogResults.length === 1 ? '' : 's'}` : ''
+  for (const result of catalogResults) {
+    const details = [result.path, ...(result.models.length ? [result.models.join(', ')] : [])]
+    catalogResultsEl.append(createPanelResultItem('', result.name, details, () => openCatalogHit(result, result.hits[0] ?? null)))
+    for (const hit of result.hits) {
+      const title = `#${hit.nodeId} ${hit.title || hit.type}${hit.subgraph ? ' (in subgraph)' : ''}`
+      catalogResultsEl.append(createPanelResultItem('catalog-hit', title, [`${hit.field}: ${hit.snippet}`], () => openCatalogHit(result, hit)))
+    }
+  }
+}
+
+async function runCatalogQuery() {
+  const run = ++catalogRun
+  const query = catalogInputEl.value
+  const results = query.trim() ? await window.workflowViewer.queryCatalog(query) : []
+  if (run !== catalogRun) return
+  catalogResults = results
+  renderCatalogResults()
+}
+
+// Nodes inside a subgraph are reached through its first instance on the top level.
+async function openCatalogHit(result: CatalogResult, hit: CatalogHit | null) {
+  await openWorkflowInNewTab(result.path)
+  const tab = getActiveTab()
+  if (!tab || tab.sourcePath !== result.path || !hit) return
+  if (tab.path.length) navigateToDepth(0)
+  const nodes = (): any[] => (graph as any)._nodes ?? []
+  if (hit.subgraph) {
+    const instance = nodes().find((node) => node?.type === hit.subgraph)
+    if (!instance || !openSubgraphNode(instance)) {
+      setStatus(`#${hit.nodeId} ${hit.title || hit.type} is inside a nested subgraph`)
+      return
+    }
+  }
+  const node = nodes().find((candidate) => candidate?.id === hit.nodeId && candidate?.type === hit.type)
+  if (!node) {
+    setStatus(`#${hit.nodeId} ${hit.title || hit.type} not found; the file may have changed`)
+    return
+  }
+  centerOnNode(node)
+  ;(canvas as any).selectNode?.(node)
+  saveActiveTabView()
+}
+
+async function openCatalog() {
+  if (searchOpen) closeSearch()
+  if (compareState) closeCompare()
+  if (dependenciesOpen) closeDependencies()
+  if (inventoryOpen) closeInventory()
+  closeExport()
+  catalogOpen = true
+  catalogPanelEl.classList.remove('hidden')
+  catalogInputEl.focus()
+  catalogInputEl.select()
+  catalogStatus = await window.workflowViewer.getCatalogStatus()
+  renderCatalogFolders()
+  await runCatalogQuery()
+}
+
+function closeCatalog() {
+  catalogOpen = false
+  catalogPanelEl.classList.add('hidden')
+}
+
+async function addCatalogFolder() {
+  const status = await window.workflowViewer.addCatalogFolder()
+  if (!status) return
+  catalogStatus = status
+  renderCatalogFolders()
+}
+
+window.workflowViewer.onCatalogChanged(async (status) => {
+  catalogStatus = status
+  if (!catalogOpen) return
+  renderCatalogFolders()
+  if (!status.indexing) await runCatalogQuery()
+})
+
+catalogInputEl.addEventListener('input', () => runCatalogQuery())
+
+catalogInputEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') {
+    event.preventDefault()
+    const first = catalogResults[0]
+    if (first) openCatalogHit(first, first.hits[0] ?? null)
+  } else if (event.key === 'Escape') {
+    event.preventDefault()
+    closeCatalog()
+  }
+})
+
+catalogAddBtn.addEventListener('click', async () => await addCatalogFolder())
+catalogCloseBtn.addEventListener('click', () => closeCatalog())
+catalogBtn.addEventListener('click', () => (catalogOpen ? closeCatalog() : openCatalog()))
+
+type ExportBounds = { x: number; y: number; width: number; height: number }
+
+let exportingImage = false
+
+function computeGraphBounds(): ExportBounds | null {
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const node of ((graph as any)._nodes ?? []) as any[]) {
+    if (!isVec2(node?.pos) || !isVec2(node?.size)) continue
+    minX = Math.min(minX, node.pos[0])
+    minY = Math.min(minY, node.pos[1] - titleHeight)
+    maxX = Math.max(maxX, node.pos[0] + node.size[0])
+    maxY = Math.max(maxY, node.pos[1] + node.size[1])
+  }
+  for (const group of ((graph as any)._groups ?? []) as any[]) {
+    const b = group?._bounding
+    if (!b) continue
+    minX = Math.min(minX, b[0])
+    minY = Math.min(minY, b[1])
+    maxX = Math.max(maxX, b[0] + b[2])
+    maxY = Math.max(maxY, b[1] + b[3])
+  }
+  if (!Number.isFinite(minX)) return null
+  return {
+    x: minX - EXPORT_PADDING,
+    y: minY - EXPORT_PADDING,
+    width: maxX - minX + EXPORT_PADDING * 2,
+    height: maxY - minY + EXPORT_PADDING * 2
+  }
+}
+
+function computeExportBounds(area: string): ExportBounds | null {
+  if (area !== 'viewport') return computeGraphBounds()
+  const visible: ArrayLike<number> = (canvas.ds as any).visible_area
+  return { x: visible[0]!, y: visible[1]!, width: visible[2]!, height: visible[3]! }
+}
+
+function clampExportScale(bounds: ExportBounds, scale: number) {
+  const bySide = EXPORT_MAX_SIDE / Math.max(bounds.width, bounds.height)
+  const byArea = Math.sqrt(EXPORT_MAX_PIXELS / (bounds.width * bounds.height))
+  return Math.min(scale, bySide, byArea)
+}
+
+// Renders through the live canvas at the export size, then puts everything back before the
+// browser gets a chance to paint.
+function renderGraphToPng(bounds: ExportBounds, scale: number, transparent: boolean) {
+  const anyCanvas = canvas as any
+  const saved = {
+    view: readView(canvas),
+    width: canvasEl.width,
+    height: canvasEl.height,
+    dpr: anyCanvas.__viewerDpr,
+    selected: anyCanvas.selected_nodes,
+    background: anyCanvas.clear_background_color,
+    image: anyCanvas.background_image,
+    info: anyCanvas.show_info
+  }
+  exportingImage = true
+  try {
+    anyCanvas.__viewerDpr = scale
+    canvas.resize(Math.ceil(bounds.width * scale), Math.ceil(bounds.height * scale))
+    canvas.ds.scale = 1
+    canvas.ds.offset[0] = -bounds.x
+    canvas.ds.offset[1] = -bounds.y
+    anyCanvas.selected_nodes = {}
+    anyCanvas.show_info = false
+    if (transparent) {
+      anyCanvas.clear_background_color = null
+      anyCanvas.background_image = null
+    }
+    canvas.draw(true, true)
+    return canvasEl.toDataURL('image/png')
+  } finally {
+    exportingImage = false
+    anyCanvas.__viewerDpr = saved.dpr
+    anyCanvas.selected_nodes = saved.selected
+    anyCanvas.clear_background_color = saved.background
+    anyCanvas.background_image = saved.image
+    anyCanvas.show_info = saved.info
+    canvas.resize(saved.width, saved.height)
+    applyView(canvas, saved.view)
+  }
+}
+
+function linkColorForType(type: unknown) {
+  const key = String(type ?? '')
+  return (LGraphCanvas as any).link_type_colors?.[key] ?? (canvas as any).default_link_color ?? '#9a9'
+}
+
+function overlaps(bounds: ExportBounds, x: number, y: number, width: number, height: number) {
+  return x < bounds.x + bounds.width && x + width > bounds.x && y < bounds.y + bounds.height && y + height > bounds.y
+}
+
+function buildSvgScene(bounds: ExportBounds): SvgScene {
+  const titleHeight = (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30
+  const scene: SvgScene = { bounds, nodes: [], links: [], groups: [] }
+  const included = new Set<number>()
+
+  for (const node of ((graph as any)._nodes ?? []) as any[]) {
+    normalizeNodeSize(node)
+    if (!isVec2(node.pos) || !overlaps(bounds, node.pos[0], node.pos[1] - titleHeight, node.size[0], node.size[1] + titleHeight)) continue
+    included.add(node.id)
+    const slots = (list: any[] | undefined, isInput: boolean) =>
+      (list ?? []).map((slot: any, index: number) => {
+        const pos: number[] = node.getConnectionPos(isInput, index)
+        return { name: String(slot?.label ?? slot?.name ?? ''), x: pos[0]!, y: pos[1]!, color: linkColorForType(slot?.type) }
+      })
+    const layout = buildOverlayLayout(node)
+    scene.nodes.push({
+      x: node.pos[0],
+      y: node.pos[1],
+      width: node.size[0],
+      height: node.size[1],
+      title: String(node.getTitle?.() ?? node.title ?? node.type ?? ''),
+      color: node.color ?? LiteGraph.NODE_DEFAULT_COLOR,
+      bgcolor: node.bgcolor ?? LiteGraph.NODE_DEFAULT_BGCOLOR,
+      inputs: slots(node.inputs, true),
+      outputs: slots(node.outputs, false),
+      params: layout?.items ?? [],
+      paramsTop: layout?.startY ?? 0,
+      paramsLeft: PARAM_PADDING_X,
+      paramsWidth: layout?.boxWidth ?? 0
+    })
+  }
+
+  for (const link of Object.values((graph as any).links ?? {}) as any[]) {
+    if (!link || (!included.has(link.origin_id) && !included.has(link.target_id))) continue
+    const origin = (graph as any).getNodeById?.(link.origin_id)
+    const target = (graph as any).getNodeById?.(link.target_id)
+    if (!origin || !target) continue
+    scene.links.push({
+      from: origin.getConnectionPos(false, link.origin_slot),
+      to: target.getConnectionPos(true, link.target_slot),
+      color: linkColorForType(link.type)
+    })
+  }
+
+  for (const group of ((graph as any)._groups ?? []) as any[]) {
+    const b = group?._bounding
+    if (!b || !overlaps(bounds, b[0], b[1], b[2], b[3])) continue
+    scene.groups.push({
+      x: b[0],
+      y: b[1],
+      width: b[2],
+      height: b[3],
+      title: String(group.title ?? ''),
+      color: group.color ?? '#3f789e',
+      fontSize: Number(group.font_size) || 24
+    })
+  }
+  return scene
+}
+
+function openExport() {
+  if (!getActiveTab()) return
+  if (searchOpen) closeSearch()
+  if (compareState) closeCompare()
+  if (dependenciesOpen) closeDependencies()
+  if (inventoryOpen) closeInventory()
+  if (catalogOpen) closeCatalog()
+  exportPanelEl.classList.remove('hidden')
+  exportFormatEl.focus()
+}
+
+function closeExport() {
+  exportPanelEl.classList.add('hidden')
+}
+
+async function exportImage() {
+  const tab = getActiveTab()
+  const format = exportFormatEl.value === 'svg' ? 'svg' : 'png'
+  const bounds = computeExportBounds(exportAreaEl.value)
+  if (!tab || !bounds) {
+    setStatus('Nothing to export')
+    return
+  }
+
+  const requestedScale = Number(exportScaleEl.value) || 1
+  const transparent = exportBackgroundEl.value === 'transparent'
+  const baseName = [tab.title.replace(/\.[^.]+$/, ''), ...tab.path.map((frame) => frame.title)].join(' - ')
+  let data: string
+  let scale = requestedScale
+  if (format === 'svg') {
+    data = renderSceneToSvg(buildSvgScene(bounds), {
+      scale,
+      background: transparent ? null : THEME_BACKGROUND_COLOR,
+      fontFamily: PARAM_FONT_FAMILY,
+      titleHeight: (LiteGraph as any).NODE_TITLE_HEIGHT ?? 30,
+      titleColor: LiteGraph.NODE_TITLE_COLOR,
+      textColor: 'rgba(230,237,243,0.92)',
+      mutedColor: 'rgba(180,190,205,0.92)'
+    })
+  } else {
+    scale = clampExportScale(bounds, requestedScale)
+    data = renderGraphToPng(bounds, scale, transparent).replace(/^data:image\/png;base64,/, '')
+  }
+
+  closeExport()
+  const result = await window.workflowViewer.saveExport({
+    defaultName: `${baseName}.${format}`,
+    data,
+    encoding: format === 'svg' ? 'utf8' : 'base64'
+  })
+  if (!result) return
+  if (!result.ok) {
+    setStatus(`Error: ${result.error}`)
+    return
+  }
+  const scaleNote = scale < requestedScale ? ` (scale reduced to ${scale.toFixed(2)}× to fit)` : ''
+  setStatus(`Exported: ${result.savedPath}${scaleNote}`)
+}
+
+async function savePngWithWorkflow() {
+  const tab = getActiveTab()
+  if (!tab) {
+    setStatus('No workflow to save')
+    return
+  }
+  // Only the root level is live-synced; inside a subgraph the root keeps its last synced positions.
+  if (tab.path.length === 0) syncGraphPositionsToWorkflow(tab.workflow)
+
+  const result = await window.workflowViewer.savePngWithWorkflow({
+    workflow: JSON.stringify(tab.workflow),
+    ...(tab.prompt ? { prompt: tab.prompt } : {})
+  })
+  if (!result) return
+  setStatus(result.ok ? `Saved PNG with workflow: ${result.savedPath}` : `Error: ${result.error}`)
+}
+
+async function exportApiPrompt() {
+  const tab = getActiveTab()
+  if (!tab) {
+    setStatus('No workflow to export')
+    return
+  }
+
+  const { prompt, unresolved, skipped } = workflowToApiPrompt(tab.workflow, {
+    widgetLabels: getWidgetLabels,
+    subgraphTypes: new Set(tab.subgraphs.keys())
+  })
+  if (!Object.keys(prompt).length) {
+    setStatus('Nothing to export: no executable nodes')
+    return
+  }
+
+  const result = await window.workflowViewer.saveExport({
+    defaultName: `${tab.title.replace(/\.[^.]+$/, '')}-api.json`,
+    data: JSON.stringify(prompt, null, 2),
+    encoding: 'utf8'
+  })
+  if (!result) return
+  if (!result.ok) {
+    setStatus(`Error: ${result.error}`)
+    return
+  }
+  const { savedPath } = result
+  const skippedNote = skipped ? `, ${skipped} skipped` : ''
+  if (!unresolved.length) {
+    setStatus(`Exported API prompt: ${savedPath} (${Object.keys(prompt).length} nodes${skippedNote})`)
+    return
+  }
+  setStatus(`Exported API prompt: ${savedPath} — ${unresolved.length} node(s) need attention, see details`)
+  showSelection({
+    exportedTo: savedPath,
+    unresolvedNodes: unresolved.map((entry) => `#${entry.id} ${entry.title} (${entry.type}): ${entry.reason}`)
+  })
+}
+
+exportPanelEl.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') {
+    event.preventDefault()
+    closeExport()
+  }
+})
+
+exportSaveBtn.addEventListener('click', async () => await exportImage())
+exportCancelBtn.addEventListener('click', () => closeExport())
+
+fitBtn.addEventListener('click', () => {
+  fitToContent()
+  saveActiveTabView()
+})
+
+resetBtn.addEventListener('click', () => resetView())
+
+toggleSidebarBtn.addEventListener('click', () => setSidebarVisible(!sidebarVisible))
+
+window.workflowViewer.onCommand((command) => {
+  if (command === 'zoom-in') zoomByFactor(ZOOM_STEP)
+  else if (command === 'zoom-out') zoomByFactor(1 / ZOOM_STEP)
   else if (command === 'reset-view') resetView()
   else if (command === 'fit') {
     fitToContent()
     saveActiveTabView()
   } else if (command === 'toggle-sidebar') setSidebarVisible(!sidebarVisible)
+  else if (command === 'toggle-minimap') setMinimapVisible(!minimapVisible)
   else if (command === 'close-tab') {
     if (activeTabId) closeTab(activeTabId)
   } else if (command === 'next-tab') cycleTab(1)
   else if (command === 'prev-tab') cycleTab(-1)
+  else if (command === 'auto-layout') autoLayoutActiveTab()
+  else if (command === 'find') openSearch()
+  else if (command === 'compare') openCompare()
+  else if (command === 'toggle-split') setSplitOpen(!splitOpen)
+  else if (command === 'export-image') openExport()
+  else if (command === 'save-png') savePngWithWorkflow()
+  else if (command === 'export-api-prompt') exportApiPrompt()
+  else if (command === 'load-node-definitions') chooseReferenceFile('node-definitions')
+  else if (command === 'load-node-map') chooseReferenceFile('node-map')
+  else if (command === 'dependencies') openDependencies()
+  else if (command === 'inventory') openInventory()
+  else if (command === 'open-folder') chooseLibraryFolder()
+  else if (command === 'search-workflows') openCatalog()
 })
 
 updateEmptyState()
+
+window.workflowViewer.getModelsDir().then((dir) => {
+  modelsDir = dir
+})
+
+// Failures only cost the reference data; they must not hold up headless renders waiting on this.
+const referenceFilesRestored = Promise.all(
+  (['node-definitions', 'node-map'] as const).map((kind) =>
+    window.workflowViewer
+      .restoreReferenceFile(kind)
+      .then((payload) => {
+        if (payload) applyReferenceFile(kind, payload)
+      })
+      .catch((error) => applyReferenceFile(kind, { ok: false, error: String(error?.message ?? error) }))
+  )
+)
+
+const sessionRestored = restoreSession()
+
+window.addEventListener('beforeunload', () => saveSession())
+
+// Headless `--export-png`: draws the file like Export › Image, once saved node definitions are in.
+window.workflowViewer.onRenderRequest(async (request) => {
+  try {
+    await referenceFilesRestored
+    const error = await openWorkflowInNewTab(request.path)
+    if (error) {
+      window.workflowViewer.sendRenderResult({ ok: false, error })
+      return
+    }
+    const bounds = getActiveTab()?.sourcePath === request.path ? computeGraphBounds() : null
+    if (!bounds) {
+      window.workflowViewer.sendRenderResult({ ok: false, error: 'Nothing to render' })
+      return
+    }
+    const scale = clampExportScale(bounds, request.scale)
+    const data = renderGraphToPng(bounds, scale, request.transparent).replace(/^data:image\/png;base64,/, '')
+    window.workflowViewer.sendRenderResult({ ok: true, data, scale })
+  } catch (error) {
+    window.workflowViewer.sendRenderResult({ ok: false, error: error instanceof Error ? error.message : String(error) })
+  }
+})
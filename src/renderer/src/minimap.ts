@@ -0,0 +1,91 @@
+export type MinimapRect = [number, number, number, number]
+
+export type MinimapScene = {
+  bounds: MinimapRect
+  nodes: Array<{ rect: MinimapRect; color: string }>
+  groups: Array<{ rect: MinimapRect; color: string }>
+}
+
+// Maps graph coordinates into the minimap: `minimap = (graph - origin) * scale + padding`.
+export type MinimapTransform = { scale: number; originX: number; originY: number; padX: number; padY: number }
+
+const MINIMAP_PADDING = 6
+const MINIMAP_COLORS = {
+  background: 'rgba(15, 18, 26, 0.92)',
+  viewport: 'rgba(88, 166, 255, 0.9)',
+  viewportFill: 'rgba(88, 166, 255, 0.12)'
+}
+
+/** The bounding box around a set of rects, or null when there are none. */
+export function unionRects(rects: MinimapRect[]): MinimapRect | null {
+  if (!rects.length) return null
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const [x, y, width, height] of rects) {
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x + width)
+    maxY = Math.max(maxY, y + height)
+  }
+  return [minX, minY, maxX - minX, maxY - minY]
+}
+
+/** Fits the scene bounds into a `width`×`height` minimap, centred. */
+export function fitMinimap(bounds: MinimapRect, width: number, height: number): MinimapTransform {
+  const [x, y, w, h] = bounds
+  const scale = Math.min((width - MINIMAP_PADDING * 2) / Math.max(w, 1), (height - MINIMAP_PADDING * 2) / Math.max(h, 1))
+  return { scale, originX: x, originY: y, padX: (width - w * scale) / 2, padY: (height - h * scale) / 2 }
+}
+
+export function minimapToGraph(transform: MinimapTransform, x: number, y: number): [number, number] {
+  return [(x - transform.padX) / transform.scale + transform.originX, (y - transform.padY) / transform.scale + transform.originY]
+}
+
+/**
+ * Draws groups and node boxes in their colours plus the visible area of the main canvas.
+ * Sizes are in CSS pixels; `pixelRatio` is the canvas' backing-store scale.
+ */
+export function drawMinimap(
+  canvasEl: HTMLCanvasElement,
+  scene: MinimapScene,
+  viewport: MinimapRect,
+  transform: MinimapTransform,
+  pixelRatio: number
+) {
+  const ctx = canvasEl.getContext('2d')
+  if (!ctx) return
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  const width = canvasEl.width / pixelRatio
+  const height = canvasEl.height / pixelRatio
+  ctx.clearRect(0, 0, width, height)
+  ctx.fillStyle = MINIMAP_COLORS.background
+  ctx.fillRect(0, 0, width, height)
+
+  const { scale, originX, originY, padX, padY } = transform
+  const toMinimap = ([x, y, w, h]: MinimapRect): MinimapRect => [
+    (x - originX) * scale + padX,
+    (y - originY) * scale + padY,
+    w * scale,
+    h * scale
+  ]
+
+  ctx.globalAlpha = 0.3
+  for (const group of scene.groups) {
+    ctx.fillStyle = group.color
+    ctx.fillRect(...toMinimap(group.rect))
+  }
+  ctx.globalAlpha = 0.85
+  for (const node of scene.nodes) {
+    const [x, y, w, h] = toMinimap(node.rect)
+    ctx.fillStyle = node.color
+    // Keep tiny nodes visible on very large graphs.
+    ctx.fillRect(x, y, Math.max(w, 1), Math.max(h, 1))
+  }
+  ctx.globalAlpha = 1
+
+  const [vx, vy, vw, vh] = toMinimap(viewport)
+  ctx.fillStyle = MINIMAP_COLORS.viewportFill
+  ctx.fillRect(vx, vy, vw, vh)
+  ctx.strokeStyle = MINIMAP_COLORS.viewport
+  ctx.lineWidth = 1
+  ctx.strokeRect(vx + 0.5, vy + 0.5, Math.max(vw - 1, 1), Math.max(vh - 1, 1))
+}
@@ -0,0 +1,189 @@
+export type WorkflowSchema = 'litegraph-0.4' | 'comfyui-1' | 'unknown'
+
+export type SerializedLink = [number, number, number, number, number, string]
+
+export type NormalizedWorkflow = {
+  last_node_id: number
+  last_link_id: number
+  nodes: any[]
+  links: SerializedLink[]
+  groups: any[]
+  config: Record<string, unknown>
+  extra: Record<string, any>
+  definitions?: { subgraphs?: any[] }
+  version: 0.4
+}
+
+export type NormalizeResult = {
+  workflow: NormalizedWorkflow
+  schema: WorkflowSchema
+  issues: string[]
+}
+
+function toVec2(value: any): [number, number] | null {
+  if (!value || typeof value !== 'object') return null
+  const x = value[0] ?? value['0']
+  const y = value[1] ?? value['1']
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) return null
+  return [x, y]
+}
+
+function detectSchema(raw: any): WorkflowSchema {
+  if (raw?.version === 1) return 'comfyui-1'
+  const links: unknown[] = Array.isArray(raw?.links) ? raw.links : []
+  if (links.some((link) => link && typeof link === 'object' && !Array.isArray(link))) return 'comfyui-1'
+  if (raw?.version == null || typeof raw.version === 'number') return 'litegraph-0.4'
+  return 'unknown'
+}
+
+function readLink(link: any): SerializedLink | null {
+  if (Array.isArray(link)) {
+    const [id, originId, originSlot, targetId, targetSlot, type] = link
+    if ([id, originId, originSlot, targetId, targetSlot].some((v) => typeof v !== 'number' && typeof v !== 'string')) return null
+    return [Number(id), Number(originId), Number(originSlot), Number(targetId), Number(targetSlot), String(type ?? '*')]
+  }
+  if (link && typeof link === 'object') {
+    const { id, origin_id, origin_slot, target_id, target_slot, type } = link
+    if ([id, origin_id, origin_slot, target_id, target_slot].some((v) => v == null)) return null
+    return [Number(id), Number(origin_id), Number(origin_slot), Number(target_id), Number(target_slot), String(type ?? '*')]
+  }
+  return null
+}
+
+function normalizeNodes(rawNodes: unknown[], issues: string[]) {
+  const nodes: any[] = []
+  const seen = new Set<number>()
+  rawNodes.forEach((raw: any, index) => {
+    if (!raw || typeof raw !== 'object') {
+      issues.push(`Node #${index} is not an object; skipped`)
+      return
+    }
+    const id = Number(raw.id)
+    if (!Number.isFinite(id)) {
+      issues.push(`Node #${index} (${raw.type ?? 'unknown type'}) has no numeric id; skipped`)
+      return
+    }
+    if (seen.has(id)) {
+      issues.push(`Duplicate node id ${id}; later copy skipped`)
+      return
+    }
+    seen.add(id)
+    if (typeof raw.type !== 'string' || !raw.type) issues.push(`Node ${id} has no type`)
+
+    const node = { ...raw, id }
+    const pos = toVec2(raw.pos)
+    if (pos) node.pos = pos
+    else delete node.pos
+    const size = toVec2(raw.size)
+    if (size) node.size = size
+    node.inputs = Array.isArray(raw.inputs) ? raw.inputs.map((slot: any) => ({ ...slot })) : []
+    node.outputs = Array.isArray(raw.outputs)
+      ? raw.outputs.map((slot: any) => ({ ...slot, links: Array.isArray(slot?.links) ? [...slot.links] : slot?.links ?? null }))
+      : []
+    nodes.push(node)
+  })
+  return nodes
+}
+
+/**
+ * Converts a parsed workflow (litegraph 0.4 array links, or ComfyUI frontend `version: 1`
+ * object links) into the single shape `LGraph.configure` expects. Anything that cannot be
+ * mapped — dangling links, slots out of range, unsupported features — is listed in `issues`
+ * instead of being dropped silently.
+ */
+export function normalizeWorkflow(raw: unknown): NormalizeResult {
+  const issues: string[] = []
+  const source: any = raw && typeof raw === 'object' ? raw : {}
+  const schema = detectSchema(source)
+  if (schema === 'unknown') issues.push(`Unrecognized workflow version ${JSON.stringify(source.version)}; treated as litegraph 0.4`)
+  if (!Array.isArray(source.nodes)) issues.push('Workflow has no nodes array')
+
+  const nodes = normalizeNodes(Array.isArray(source.nodes) ? source.nodes : [], issues)
+  const byId = new Map<number, any>(nodes.map((node) => [node.id, node]))
+
+  const links: SerializedLink[] = []
+  const linkIds = new Set<number>()
+  const rawLinks: unknown[] = Array.isArray(source.links) ? source.links : []
+  rawLinks.forEach((rawLink, index) => {
+    if (rawLink == null) return
+    const link = readLink(rawLink)
+    if (!link || !link.slice(0, 5).every((v) => Number.isFinite(v as number))) {
+      issues.push(`Link #${index} is malformed; skipped`)
+      return
+    }
+    const [id, originId, originSlot, targetId, targetSlot] = link
+    if (linkIds.has(id)) {
+      issues.push(`Duplicate link id ${id}; later copy skipped`)
+      return
+    }
+    const origin = byId.get(originId)
+    const target = byId.get(targetId)
+    if (!origin || !target) {
+      issues.push(`Link ${id}: ${!origin ? `origin node ${originId}` : `target node ${targetId}`} not found; skipped`)
+      return
+    }
+    if (originSlot < 0 || originSlot >= origin.outputs.length) {
+      issues.push(`Link ${id}: node ${originId} has no output slot ${originSlot}; skipped`)
+      return
+    }
+    if (targetSlot < 0 || targetSlot >= target.inputs.length) {
+      issues.push(`Link ${id}: node ${targetId} has no input slot ${targetSlot}; skipped`)
+      return
+    }
+    linkIds.add(id)
+    links.push(link)
+
+    const input = target.inputs[targetSlot]
+    if (input.link !== id) input.link = id
+    const output = origin.outputs[originSlot]
+    if (!Array.isArray(output.links)) output.links = []
+    if (!output.links.includes(id)) output.links.push(id)
+  })
+
+  // Slots may point at links that were skipped above (or never existed).
+  for (const node of nodes) {
+    node.inputs.forEach((input: any, slot: number) => {
+      if (input?.link == null || linkIds.has(input.link)) return
+      issues.push(`Node ${node.id} input ${input.name ?? slot} references missing link ${input.link}`)
+      input.link = null
+    })
+    for (const output of node.outputs) {
+      if (Array.isArray(output?.links)) output.links = output.links.filter((id: number) => linkIds.has(id))
+    }
+  }
+
+  const groups: any[] = []
+  const rawGroups: unknown[] = Array.isArray(source.groups) ? source.groups : []
+  rawGroups.forEach((group: any, index) => {
+    const bounding = Array.isArray(group?.bounding) && group.bounding.length >= 4 ? group.bounding.slice(0, 4).map(Number) : null
+    if (!bounding || !bounding.every(Number.isFinite)) {
+      issues.push(`Group "${group?.title ?? index}" has no bounding box; skipped`)
+      return
+    }
+    groups.push({ ...group, bounding })
+  })
+
+  const extra: Record<string, any> = source.extra && typeof source.extra === 'object' ? { ...source.extra } : {}
+  const reroutes = (Array.isArray(source.reroutes) ? source.reroutes.length : 0) + (Array.isArray(extra.reroutes) ? extra.reroutes.length : 0)
+  if (reroutes) issues.push(`${reroutes} native reroute point(s) not rendered; links are drawn directly`)
+  const floatingLinks = Array.isArray(source.floatingLinks) ? source.floatingLinks.length : 0
+  if (floatingLinks) issues.push(`${floatingLinks} floating link(s) without a target not rendered`)
+
+  const state = source.state && typeof source.state === 'object' ? source.state : {}
+  const maxNodeId = nodes.reduce((max, node) => Math.max(max, node.id), 0)
+  const maxLinkId = links.reduce((max, link) => Math.max(max, link[0]), 0)
+
+  const workflow: NormalizedWorkflow = {
+    last_node_id: Math.max(Number(source.last_node_id ?? state.lastNodeId) || 0, maxNodeId),
+    last_link_id: Math.max(Number(source.last_link_id ?? state.lastLinkId) || 0, maxLinkId),
+    nodes,
+    links,
+    groups,
+    config: source.config && typeof source.config === 'object' ? source.config : {},
+    extra,
+    version: 0.4
+  }
+  if (source.definitions && typeof source.definitions === 'object') workflow.definitions = source.definitions
+
+  return { workflow, schema, issues }
+}
@@ -0,0 +1,133 @@
+export type ApiPromptNode = { class_type: string; inputs: Record<string, unknown>; _meta: { title: string } }
+
+export type ApiPrompt = Record<string, ApiPromptNode>
+
+export type UnresolvedNode = { id: number; type: string; title: string; reason: string }
+
+export type ApiPromptResult = { prompt: ApiPrompt; unresolved: UnresolvedNode[]; skipped: number }
+
+export type ApiPromptOptions = {
+  widgetLabels?: (node: any) => string[]
+  // Types that open a nested graph; the viewer cannot flatten them into the prompt.
+  subgraphTypes?: Set<string>
+}
+
+type LinkSource = [string, number] | { value: unknown } | null
+
+const MODE_MUTED = 2
+const MODE_BYPASSED = 4
+
+// Frontend-only nodes: they never reach the backend, their effect is folded into neighbours.
+const REROUTE_TYPES = new Set(['Reroute'])
+const PRIMITIVE_TYPES = new Set(['PrimitiveNode'])
+const NOTE_TYPES = new Set(['Note', 'MarkdownNote'])
+
+// Widgets that occupy a `widgets_values` slot but are not backend inputs.
+const UI_ONLY_WIDGETS = new Set(['control_after_generate', 'control_before_generate', 'upload'])
+const SEED_CONTROL_VALUES = new Set(['fixed', 'increment', 'decrement', 'randomize'])
+
+function isVirtual(node: any) {
+  const type = String(node?.type ?? '')
+  return REROUTE_TYPES.has(type) || PRIMITIVE_TYPES.has(type) || NOTE_TYPES.has(type)
+}
+
+// Widget names as listed on the node's inputs (ComfyUI frontend ≥ 1.16, or converted widgets);
+// seed widgets are followed by an unnamed "control after generate" value.
+function widgetNamesFromInputs(node: any, values: unknown[]) {
+  const names: string[] = []
+  for (const input of Array.isArray(node?.inputs) ? node.inputs : []) {
+    const name = input?.widget?.name
+    if (typeof name !== 'string') continue
+    names.push(name)
+    if (/seed$/i.test(name) && SEED_CONTROL_VALUES.has(String(values[names.length]))) names.push('control_after_generate')
+  }
+  return names
+}
+
+function widgetInputs(node: any, labels: string[]): { inputs: Record<string, unknown>; reason: string | null } {
+  const raw = node?.widgets_values
+  // Some custom nodes serialize their widgets as an object keyed by name.
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    const inputs = Object.fromEntries(Object.entries(raw).filter(([name]) => !UI_ONLY_WIDGETS.has(name)))
+    return { inputs, reason: null }
+  }
+  const values: unknown[] = Array.isArray(raw) ? raw : []
+  if (!values.length) return { inputs: {}, reason: null }
+
+  const names = labels.length ? labels : widgetNamesFromInputs(node, values)
+  const inputs: Record<string, unknown> = {}
+  values.forEach((value, i) => {
+    const name = names[i]
+    if (name && !UI_ONLY_WIDGETS.has(name)) inputs[name] = value
+  })
+  if (!names.length) return { inputs, reason: `widget names unknown for ${values.length} value(s)` }
+  if (names.length < values.length) return { inputs, reason: `${values.length - names.length} of ${values.length} widget value(s) unnamed` }
+  return { inputs, reason: null }
+}
+
+/**
+ * Converts a normalized UI workflow into the `{ id: { class_type, inputs } }` body ComfyUI's
+ * `/prompt` endpoint takes. Links become `[nodeId, slot]` references, resolved through reroutes
+ * and bypassed nodes; muted, bypassed and frontend-only nodes are left out. Nodes whose widget
+ * values could not be named are still emitted and listed in `unresolved`.
+ */
+export function workflowToApiPrompt(workflow: any, { widgetLabels, subgraphTypes }: ApiPromptOptions = {}): ApiPromptResult {
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
+  const byId = new Map<number, any>(nodes.map((node) => [node.id, node]))
+  const linkById = new Map<number, { originId: number; originSlot: number }>()
+  for (const link of Array.isArray(workflow?.links) ? workflow.links : []) {
+    if (Array.isArray(link)) linkById.set(link[0], { originId: link[1], originSlot: link[2] })
+  }
+
+  const resolveLink = (linkId: unknown, seen = new Set<number>()): LinkSource => {
+    const link = linkById.get(Number(linkId))
+    if (!link) return null
+    const origin = byId.get(link.originId)
+    if (!origin || seen.has(origin.id)) return null
+    seen.add(origin.id)
+
+    const type = String(origin.type ?? '')
+    const inputs: any[] = Array.isArray(origin.inputs) ? origin.inputs : []
+    if (REROUTE_TYPES.has(type)) return resolveLink(inputs[0]?.link, seen)
+    if (PRIMITIVE_TYPES.has(type)) return { value: Array.isArray(origin.widgets_values) ? origin.widgets_values[0] : undefined }
+    if (origin.mode === MODE_MUTED) return null
+    if (origin.mode === MODE_BYPASSED) {
+      // Same rule as ComfyUI: pass through the input of the output's type, preferring the same index.
+      const outputType = origin.outputs?.[link.originSlot]?.type
+      const sameIndex = inputs[link.originSlot]
+      const through = sameIndex?.type === outputType ? sameIndex : inputs.find((input) => input?.type === outputType)
+      return through ? resolveLink(through.link, seen) : null
+    }
+    return [String(origin.id), link.originSlot]
+  }
+
+  const prompt: ApiPrompt = {}
+  const unresolved: UnresolvedNode[] = []
+  let skipped = 0
+  for (const node of nodes) {
+    const type = String(node.type ?? '')
+    const title = String(node.title ?? type)
+    if (isVirtual(node) || node.mode === MODE_MUTED || node.mode === MODE_BYPASSED) {
+      skipped++
+      continue
+    }
+    if (subgraphTypes?.has(type)) {
+      unresolved.push({ id: node.id, type, title, reason: 'subgraph instance; not expanded' })
+      continue
+    }
+
+    const { inputs, reason } = widgetInputs(node, widgetLabels?.(node) ?? [])
+    for (const input of Array.isArray(node.inputs) ? node.inputs : []) {
+      if (input?.link == null || typeof input.name !== 'string') continue
+      const source = resolveLink(input.link)
+      // A widget converted to an input keeps its widget value when nothing usable feeds it.
+      if (Array.isArray(source)) inputs[input.widget?.name ?? input.name] = source
+      else if (source) inputs[input.widget?.name ?? input.name] = source.value
+    }
+
+    prompt[String(node.id)] = { class_type: type, inputs, _meta: { title } }
+    if (reason) unresolved.push({ id: node.id, type, title, reason })
+  }
+
+  return { prompt, unresolved, skipped }
+}
@@ -0,0 +1,48 @@
+import { snippetAround } from '../../shared/snippet'
+
+export type SearchableParam = { label: string; value: unknown }
+
+export type SearchMatch = {
+  nodeId: number
+  title: string
+  type: string
+  field: string
+  snippet: string
+}
+
+function valueToText(value: unknown) {
+  if (value == null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  try {
+    return JSON.stringify(value) ?? ''
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * Case-insensitive match of `query` against a node's id (exact, `12` or `#12`), title, type
+ * and parameter values. Returns the first field that matched, or null.
+ */
+export function matchNode(node: any, params: SearchableParam[], query: string): SearchMatch | null {
+  const needle = query.trim().toLowerCase()
+  if (!needle || !node) return null
+  const title = String(node.title ?? '')
+  const type = String(node.type ?? '')
+  const base = { nodeId: Number(node.id), title, type }
+
+  if (needle.replace(/^#/, '') === String(node.id)) return { ...base, field: 'id', snippet: `#${node.id}` }
+  for (const [field, text] of [
+    ['title', title],
+    ['type', type]
+  ] as const) {
+    if (text.toLowerCase().includes(needle)) return { ...base, field, snippet: text }
+  }
+  for (const param of params) {
+    const text = valueToText(param.value)
+    const index = text.toLowerCase().indexOf(needle)
+    if (index >= 0) return { ...base, field: param.label, snippet: snippetAround(text, index, needle.length) }
+  }
+  return null
+}
@@ -0,0 +1,199 @@
+export type SubgraphSlot = { name: string; type: string }
+
+export type SubgraphDefinition = {
+  id: string
+  name: string
+  kind: 'subgraph' | 'group-node'
+  inputs: SubgraphSlot[]
+  outputs: SubgraphSlot[]
+  raw: any
+}
+
+export const SUBGRAPH_INPUT_TYPE = 'SubgraphInput'
+export const SUBGRAPH_OUTPUT_TYPE = 'SubgraphOutput'
+
+// Ids ComfyUI uses for the implicit input/output nodes inside a subgraph definition.
+const SUBGRAPH_INPUT_NODE_ID = -10
+const SUBGRAPH_OUTPUT_NODE_ID = -20
+
+const IO_NODE_WIDTH = 180
+
+function toSlots(value: unknown): SubgraphSlot[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((slot) => slot && typeof slot === 'object')
+    .map((slot: any) => ({ name: String(slot.label ?? slot.name ?? ''), type: String(slot.type ?? '*') }))
+}
+
+function collectInto(definitions: unknown, out: Map<string, SubgraphDefinition>) {
+  const list: unknown[] = Array.isArray((definitions as any)?.subgraphs) ? (definitions as any).subgraphs : []
+  for (const raw of list as any[]) {
+    if (!raw || typeof raw.id !== 'string' || out.has(raw.id)) continue
+    out.set(raw.id, {
+      id: raw.id,
+      name: typeof raw.name === 'string' && raw.name ? raw.name : raw.id,
+      kind: 'subgraph',
+      inputs: toSlots(raw.inputs),
+      outputs: toSlots(raw.outputs),
+      raw
+    })
+    // Some exporters nest the definitions a subgraph uses inside it.
+    collectInto(raw.definitions, out)
+  }
+}
+
+// Legacy group nodes expose every inner input not fed from inside the group and every inner output.
+function groupNodeSlots(raw: any) {
+  const nodes: any[] = raw.nodes
+  const linked = new Set<string>()
+  for (const link of Array.isArray(raw.links) ? raw.links : []) {
+    if (Array.isArray(link) && link.length >= 4) linked.add(`${link[2]}:${link[3]}`)
+  }
+  const inputs: Array<SubgraphSlot & { node: string }> = []
+  const outputs: Array<SubgraphSlot & { node: string }> = []
+  nodes.forEach((node, index) => {
+    const nodeIndex = Number.isInteger(node?.index) ? node.index : index
+    const nodeTitle = String(node?.title ?? node?.type ?? '')
+    toSlots(node?.inputs).forEach((slot, slotIndex) => {
+      if (!linked.has(`${nodeIndex}:${slotIndex}`)) inputs.push({ ...slot, node: nodeTitle })
+    })
+    for (const slot of toSlots(node?.outputs)) outputs.push({ ...slot, node: nodeTitle })
+  })
+  // Names repeated across inner nodes are told apart by their node, as ComfyUI does.
+  const name = (slots: Array<SubgraphSlot & { node: string }>): SubgraphSlot[] =>
+    slots.map(({ node, ...slot }) =>
+      slots.filter((other) => other.name === slot.name).length > 1 ? { ...slot, name: `${node} ${slot.name}` } : slot
+    )
+  return { inputs: name(inputs), outputs: name(outputs) }
+}
+
+/**
+ * Indexes every subgraph definition (`definitions.subgraphs`, any depth) and legacy group
+ * node (`extra.groupNodes`) by the node type their instances use.
+ */
+export function collectSubgraphDefinitions(workflow: any) {
+  const out = new Map<string, SubgraphDefinition>()
+  collectInto(workflow?.definitions, out)
+
+  const groupNodes = workflow?.extra?.groupNodes
+  if (groupNodes && typeof groupNodes === 'object') {
+    for (const [name, raw] of Object.entries<any>(groupNodes)) {
+      if (!raw || !Array.isArray(raw.nodes)) continue
+      const definition: SubgraphDefinition = { id: `workflow>${name}`, name, kind: 'group-node', ...groupNodeSlots(raw), raw }
+      out.set(`workflow>${name}`, definition)
+      out.set(`workflow/${name}`, definition)
+    }
+  }
+
+  return out
+}
+
+function boundingToPos(bounding: unknown, fallback: [number, number]): [number, number] {
+  if (Array.isArray(bounding) && typeof bounding[0] === 'number' && typeof bounding[1] === 'number') return [bounding[0], bounding[1]]
+  return fallback
+}
+
+function buildFromSubgraph(definition: SubgraphDefinition) {
+  const raw = definition.raw
+  const nodes: any[] = (Array.isArray(raw.nodes) ? raw.nodes : []).map((node: any) => ({ ...node }))
+  const maxId = nodes.reduce((max, node) => Math.max(max, Number(node.id) || 0), 0)
+  const inputId = maxId + 1
+  const outputId = maxId + 2
+  const remap = (id: number) => (id === SUBGRAPH_INPUT_NODE_ID ? inputId : id === SUBGRAPH_OUTPUT_NODE_ID ? outputId : id)
+
+  const links = (Array.isArray(raw.links) ? raw.links : []).map((link: any) => {
+    if (Array.isArray(link)) return [link[0], remap(Number(link[1])), link[2], remap(Number(link[3])), link[4], link[5]]
+    return { ...link, origin_id: remap(Number(link?.origin_id)), target_id: remap(Number(link?.target_id)) }
+  })
+
+  const left = nodes.reduce((min, node) => Math.min(min, node.pos?.[0] ?? 0), 0)
+  const right = nodes.reduce((max, node) => Math.max(max, (node.pos?.[0] ?? 0) + (node.size?.[0] ?? 0)), 0)
+  if (definition.inputs.length) {
+    nodes.push({
+      id: inputId,
+      type: SUBGRAPH_INPUT_TYPE,
+      title: 'Subgraph Inputs',
+      pos: boundingToPos(raw.inputNode?.bounding, [left - IO_NODE_WIDTH - 80, 0]),
+      size: [IO_NODE_WIDTH, 40],
+      inputs: [],
+      outputs: definition.inputs.map((slot) => ({ ...slot, links: [] })),
+      properties: {}
+    })
+  }
+  if (definition.outputs.length) {
+    nodes.push({
+      id: outputId,
+      type: SUBGRAPH_OUTPUT_TYPE,
+      title: 'Subgraph Outputs',
+      pos: boundingToPos(raw.outputNode?.bounding, [right + 80, 0]),
+      size: [IO_NODE_WIDTH, 40],
+      inputs: definition.outputs.map((slot) => ({ ...slot, link: null })),
+      outputs: [],
+      properties: {}
+    })
+  }
+
+  return {
+    version: 1,
+    state: raw.state,
+    nodes,
+    links,
+    groups: Array.isArray(raw.groups) ? raw.groups : [],
+    config: raw.config ?? {},
+    extra: raw.extra ?? {}
+  }
+}
+
+// Legacy group nodes address inner nodes by index and store links as [from, slot, to, slot, …, type].
+function buildFromGroupNode(definition: SubgraphDefinition) {
+  const raw = definition.raw
+  const nodes: any[] = (raw.nodes as any[]).map((node, index) => ({
+    ...node,
+    id: Number.isInteger(node?.index) ? node.index + 1 : index + 1,
+    inputs: Array.isArray(node?.inputs) ? node.inputs.map((slot: any) => ({ ...slot, link: null })) : [],
+    outputs: Array.isArray(node?.outputs) ? node.outputs.map((slot: any) => ({ ...slot, links: [] })) : []
+  }))
+  const links = (Array.isArray(raw.links) ? raw.links : [])
+    .filter((link: unknown) => Array.isArray(link) && link.length >= 4)
+    .map((link: any[], index: number) => [index + 1, link[0] + 1, link[1], link[2] + 1, link[3], link[link.length - 1] ?? '*'])
+  return { nodes, links, groups: [], config: {}, extra: {} }
+}
+
+/** Builds a standalone (not yet normalized) workflow for a definition's inner graph. */
+export function buildSubgraphWorkflow(definition: SubgraphDefinition) {
+  return definition.kind === 'subgraph' ? buildFromSubgraph(definition) : buildFromGroupNode(definition)
+}
+
+/** Gives instance nodes saved without slots the exposed inputs/outputs of their definition. */
+export function fillSubgraphInstanceSlots(workflow: any, definitions: Map<string, SubgraphDefinition>) {
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
+  for (const node of nodes) {
+    const definition = definitions.get(node?.type)
+    if (!definition) continue
+    if (!node.inputs?.length && definition.inputs.length) node.inputs = definition.inputs.map((slot) => ({ ...slot, link: null }))
+    if (!node.outputs?.length && definition.outputs.length) node.outputs = definition.outputs.map((slot) => ({ ...slot, links: [] }))
+    if (!node.title) node.title = definition.name
+  }
+}
+
+/** Node count with every subgraph instance expanded, however deeply nested. */
+export function countNodesAllLevels(workflow: any, definitions: Map<string, SubgraphDefinition>) {
+  const cache = new Map<string, number>()
+  const count = (nodes: any[], stack: Set<string>): number => {
+    let total = 0
+    for (const node of nodes) {
+      total += 1
+      const definition = definitions.get(node?.type)
+      if (!definition || stack.has(definition.id)) continue
+      if (!cache.has(definition.id)) {
+        stack.add(definition.id)
+        const inner: any[] = Array.isArray(definition.raw?.nodes) ? definition.raw.nodes : []
+        cache.set(definition.id, count(inner, stack))
+        stack.delete(definition.id)
+      }
+      total += cache.get(definition.id)!
+    }
+    return total
+  }
+  return count(Array.isArray(workflow?.nodes) ? workflow.nodes : [], new Set())
+}
@@ -0,0 +1,140 @@
+export type SvgSlot = { name: string; x: number; y: number; color: string }
+
+export type SvgParam = {
+  kind: 'inline' | 'multiline'
+  label: string
+  value: string
+  lines: string[]
+  top: number
+  height: number
+}
+
+export type SvgNode = {
+  x: number
+  y: number
+  width: number
+  height: number
+  title: string
+  color: string
+  bgcolor: string
+  inputs: SvgSlot[]
+  outputs: SvgSlot[]
+  params: SvgParam[]
+  paramsTop: number
+  paramsLeft: number
+  paramsWidth: number
+}
+
+export type SvgLink = { from: [number, number]; to: [number, number]; color: string }
+
+export type SvgGroup = { x: number; y: number; width: number; height: number; title: string; color: string; fontSize: number }
+
+export type SvgScene = {
+  bounds: { x: number; y: number; width: number; height: number }
+  nodes: SvgNode[]
+  links: SvgLink[]
+  groups: SvgGroup[]
+}
+
+export type SvgStyle = {
+  scale: number
+  background: string | null
+  fontFamily: string
+  titleHeight: number
+  titleColor: string
+  textColor: string
+  mutedColor: string
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"']/g, (ch) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[ch]!)
+}
+
+// Colours come from the workflow file, so anything that isn't plainly a CSS colour is replaced.
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%/+-]*\)|[a-z]+)$/i
+const FALLBACK_COLORS = { node: '#2a2f3a', nodeBackground: '#141821', slot: '#9aa4b2', link: '#9aa4b2', group: '#3f789e' }
+
+function color(value: unknown, fallback: string) {
+  return typeof value === 'string' && CSS_COLOR_PATTERN.test(value.trim()) ? value.trim() : fallback
+}
+
+function n(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2)
+}
+
+function text(x: number, y: number, content: string, attrs = '') {
+  return `<text x="${n(x)}" y="${n(y)}"${attrs ? ` ${attrs}` : ''}>${escapeXml(content)}</text>`
+}
+
+// Same curve LiteGraph draws for spline links.
+function linkPath({ from, to }: SvgLink) {
+  const dist = Math.hypot(to[0] - from[0], to[1] - from[1]) * 0.25
+  return `M${n(from[0])},${n(from[1])} C${n(from[0] + dist)},${n(from[1])} ${n(to[0] - dist)},${n(to[1])} ${n(to[0])},${n(to[1])}`
+}
+
+function renderNode(node: SvgNode, style: SvgStyle) {
+  const out: string[] = []
+  const top = node.y - style.titleHeight
+  out.push(`<g class="node">`)
+  out.push(
+    `<rect x="${n(node.x)}" y="${n(top)}" width="${n(node.width)}" height="${n(node.height + style.titleHeight)}" rx="8" fill="${color(node.bgcolor, FALLBACK_COLORS.nodeBackground)}"/>`
+  )
+  out.push(`<path d="M${n(node.x)},${n(node.y)} V${n(top + 8)} q0,-8 8,-8 H${n(node.x + node.width - 8)} q8,0 8,8 V${n(node.y)} Z" fill="${color(node.color, FALLBACK_COLORS.node)}"/>`)
+  out.push(text(node.x + 10, top + style.titleHeight * 0.68, node.title, `fill="${style.titleColor}" font-size="14"`))
+
+  for (const slot of node.inputs) {
+    out.push(`<circle cx="${n(slot.x)}" cy="${n(slot.y)}" r="4" fill="${color(slot.color, FALLBACK_COLORS.slot)}"/>`)
+    out.push(text(slot.x + 10, slot.y + 4, slot.name, `fill="${style.mutedColor}" font-size="12"`))
+  }
+  for (const slot of node.outputs) {
+    out.push(`<circle cx="${n(slot.x)}" cy="${n(slot.y)}" r="4" fill="${color(slot.color, FALLBACK_COLORS.slot)}"/>`)
+    out.push(text(slot.x - 10, slot.y + 4, slot.name, `fill="${style.mutedColor}" font-size="12" text-anchor="end"`))
+  }
+
+  for (const param of node.params) {
+    const x = node.x + node.paramsLeft
+    const y = node.y + node.paramsTop + param.top
+    if (y + param.height > node.y + node.height) break
+    out.push(
+      `<rect x="${n(x)}" y="${n(y)}" width="${n(node.paramsWidth)}" height="${n(param.height)}" rx="10" fill="rgba(255,255,255,0.05)" stroke="rgba(255,255,255,0.10)"/>`
+    )
+    if (param.kind === 'multiline') {
+      out.push(text(x + 10, y + 16, param.label, `fill="${style.mutedColor}" font-size="13"`))
+      param.lines.forEach((line, i) => out.push(text(x + 10, y + 34 + i * 16, line, `fill="${style.textColor}" font-size="13"`)))
+    } else {
+      out.push(text(x + 10, y + param.height * 0.7, param.label, `fill="${style.mutedColor}" font-size="13"`))
+      out.push(text(x + node.paramsWidth - 10, y + param.height * 0.7, param.value, `fill="${style.textColor}" font-size="13" text-anchor="end"`))
+    }
+  }
+  out.push(`</g>`)
+  return out.join('')
+}
+
+/** Serializes a scene to standalone SVG; all labels stay `<text>` so the file is searchable. */
+export function renderSceneToSvg(scene: SvgScene, style: SvgStyle) {
+  const { bounds } = scene
+  const width = Math.ceil(bounds.width * style.scale)
+  const height = Math.ceil(bounds.height * style.scale)
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${n(bounds.x)} ${n(bounds.y)} ${n(bounds.width)} ${n(bounds.height)}" font-family="${escapeXml(style.fontFamily)}">`
+  ]
+  if (style.background) {
+    out.push(`<rect x="${n(bounds.x)}" y="${n(bounds.y)}" width="${n(bounds.width)}" height="${n(bounds.height)}" fill="${escapeXml(style.background)}"/>`)
+  }
+
+  for (const group of scene.groups) {
+    const groupColor = color(group.color, FALLBACK_COLORS.group)
+    out.push(
+      `<g class="group"><rect x="${n(group.x)}" y="${n(group.y)}" width="${n(group.width)}" height="${n(group.height)}" rx="6" fill="${groupColor}" fill-opacity="0.25" stroke="${groupColor}" stroke-opacity="0.6"/>` +
+        text(group.x + 8, group.y + group.fontSize, group.title, `fill="${style.textColor}" font-size="${n(group.fontSize)}"`) +
+        `</g>`
+    )
+  }
+  for (const link of scene.links) {
+    out.push(`<path class="link" d="${linkPath(link)}" fill="none" stroke="${color(link.color, FALLBACK_COLORS.link)}" stroke-width="3.5"/>`)
+  }
+  for (const node of scene.nodes) out.push(renderNode(node, style))
+
+  out.push('</svg>')
+  return out.join('\n')
+}
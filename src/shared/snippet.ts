@@ -0,0 +1,8 @@
+const SNIPPET_RADIUS = 24
+
+/** Up to `SNIPPET_RADIUS` characters either side of a match, on one line. `index` is into the raw `text`. */
+export function snippetAround(text: string, index: number, length: number) {
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`
+}